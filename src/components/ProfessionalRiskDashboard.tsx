@@ -1,13 +1,19 @@
 'use client';
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Terminal, TerminalOutput, TerminalCommand } from '@/components/ui/Terminal';
 import { Controls } from '@/components/ui/Controls';
-import { AdvancedRiskEngine, MarketData, RiskMetrics, MonteCarloResult } from '@/lib/models/RiskModels';
+import { ScenarioControls, ScenarioDefinition } from '@/components/ui/ScenarioControls';
+import { AdvancedRiskEngine, MarketData, RiskMetrics, MonteCarloResult, VolatilityModelType, VolatilityModelComparison, VaRBacktestResult, VaRMethod, HorizonRisk, EVTResult, DrawdownAnalysis, RollingMetricsSeries, RollingMetricPoint, RangeVolatilityEstimates, RangeVolatilityPoint, VolatilityConePoint, RegimeModel, ChangePointAnalysis, PersistenceDiagnostics } from '@/lib/models/RiskModels';
+import { TrendAnalysis, VolumeProfileLevel, AccumulationZone, PriceProjection } from '@/lib/models/ProjectionModels';
+import { StressTestResult, StressTestSource, ShockScenario, OptionLeg, DEFAULT_SHOCK_SCENARIOS, evaluateShockScenario } from '@/lib/models/StressTestModels';
+import { runRiskAnalysis, selectEstimationWindow, MIN_ESTIMATION_BARS, LIQUIDITY_POSITION_SIZES, LiquidityRisk, RiskAnalysisInput, RiskAnalysisResult, AnalysisProgress, AnalysisWorkerRequest, AnalysisWorkerResponse } from '@/lib/workers/riskAnalysis';
+import { SeededRandom } from '@/lib/models/Random';
+import { DEFAULT_RISK_FREE_RATE } from '@/lib/models/RiskFreeRate';
 import { marketDataService } from '@/lib/api/marketData';
 import { formatNumber, formatPercent, formatCurrency, getRiskColor, formatLargeNumber } from '@/lib/utils';
-import { LineChart, Line, AreaChart, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { LineChart, Line, AreaChart, Area, BarChart, Bar, ComposedChart, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { TrendingDown, TrendingUp, AlertTriangle, Target, Activity, BarChart3, Shield, Zap, Database, Clock, DollarSign, Box, BarChart2 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import dynamic from 'next/dynamic';
@@ -38,20 +44,98 @@ const TimeDisplay: React.FC = () => {
 
 interface AnalysisParams {
   symbol: string;
+  seed?: string; // Blank for a fresh seed; set to reproduce an earlier run
+  riskFreeRate?: string; // Annual percentage; blank for the default
+  estimationStart?: string; // YYYY-MM-DD start of the estimation window; full history if omitted
 }
 
-interface PriceProjection {
-  timeframe: string;
-  bullish: number;
-  bearish: number;
-  neutral: number;
-  probability: {
-    up: number;
-    down: number;
-    neutral: number;
-  };
+// Rejection used when a newer submission terminates the running worker
+class AnalysisCancelledError extends Error {
+  constructor() {
+    super('Analysis cancelled');
+    this.name = 'AnalysisCancelledError';
+  }
 }
 
+// SPY is the benchmark for everything except SPY itself, which is compared with QQQ
+const benchmarkSymbolFor = (symbol: string) => symbol.toUpperCase() === 'SPY' ? 'QQQ' : 'SPY';
+
+type RollingMetricKey = Exclude<keyof RollingMetricPoint, 'date'>;
+
+const rollingMetricLabels: Record<RollingMetricKey, string> = {
+  volatility: 'Volatility',
+  var: 'VaR(95%)',
+  beta: 'Beta',
+  sharpeRatio: 'Sharpe',
+  skewness: 'Skew',
+  kurtosis: 'Kurtosis'
+};
+
+const rollingWindowColors = ['#00ff41', '#3b82f6', '#f59e0b'];
+
+// Regime colours by volatility rank: calm green through turbulent red
+const regimeColors: Record<number, string[]> = {
+  2: ['#00ff41', '#ff0040'],
+  3: ['#00ff41', '#f59e0b', '#ff0040']
+};
+
+const stressSourceLabels: Record<StressTestSource, string> = {
+  symbol: 'Own history',
+  benchmark: 'β × benchmark',
+  reference: 'β × S&P 500 ref.'
+};
+
+const SCENARIO_STORAGE_KEY = 'vortex.shockScenarios';
+
+// Saved scenarios live in localStorage; absent or unreadable storage falls back to the defaults
+const loadSavedScenarios = (): ShockScenario[] => {
+  try {
+    const stored = window.localStorage.getItem(SCENARIO_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return Array.isArray(parsed) ? parsed : DEFAULT_SHOCK_SCENARIOS;
+  } catch {
+    return DEFAULT_SHOCK_SCENARIOS;
+  }
+};
+
+const storeSavedScenarios = (scenarios: ShockScenario[]) => {
+  try {
+    window.localStorage.setItem(SCENARIO_STORAGE_KEY, JSON.stringify(scenarios));
+  } catch {
+    // Private browsing or a full quota: scenarios stay for this session only
+  }
+};
+
+// At-the-money one-month contracts repriced under each scenario for reference
+const referenceOptionLegs = (price: number): OptionLeg[] => [
+  { type: 'call', strike: price, daysToExpiry: 21, contracts: 1 },
+  { type: 'put', strike: price, daysToExpiry: 21, contracts: 1 }
+];
+
+type RangeEstimatorKey = Exclude<keyof RangeVolatilityEstimates, 'observations'>;
+
+const rangeEstimators: Array<{ key: RangeEstimatorKey; label: string; color: string }> = [
+  { key: 'closeToClose', label: 'Close-to-Close', color: '#64748b' },
+  { key: 'parkinson', label: 'Parkinson', color: '#3b82f6' },
+  { key: 'garmanKlass', label: 'Garman-Klass', color: '#f59e0b' },
+  { key: 'rogersSatchell', label: 'Rogers-Satchell', color: '#a855f7' },
+  { key: 'yangZhang', label: 'Yang-Zhang', color: '#00ff41' }
+];
+
+const varMethodKeys: Record<VaRMethod, 'parametric' | 'historical' | 'cornishFisher' | 'filteredHistorical'> = {
+  'parametric': 'parametric',
+  'historical': 'historical',
+  'cornish-fisher': 'cornishFisher',
+  'filtered-historical': 'filteredHistorical'
+};
+
+const varMethodLabels: Record<VaRMethod, string> = {
+  'parametric': 'Parametric',
+  'historical': 'Historical',
+  'cornish-fisher': 'Cornish-Fisher',
+  'filtered-historical': 'Filtered HS'
+};
+
 export const ProfessionalRiskDashboard: React.FC = () => {
   const [params, setParams] = useState<AnalysisParams>({
     symbol: 'SPY'
@@ -63,147 +147,98 @@ export const ProfessionalRiskDashboard: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [riskEngine, setRiskEngine] = useState<AdvancedRiskEngine | null>(null);
   const [riskMetrics, setRiskMetrics] = useState<RiskMetrics | null>(null);
+  const [varBacktest, setVarBacktest] = useState<VaRBacktestResult | null>(null);
+  const [horizonRisk, setHorizonRisk] = useState<HorizonRisk[]>([]);
+  const [analysisSeed, setAnalysisSeed] = useState<number | null>(null);
   const [priceProjections, setPriceProjections] = useState<PriceProjection[]>([]);
   const [terminalLogs, setTerminalLogs] = useState<Array<{ command: string; timestamp: Date; type: 'info' | 'success' | 'error' }>>([]);
   const [realTimePrice, setRealTimePrice] = useState<number | null>(null);
-  const [trendAnalysis, setTrendAnalysis] = useState<{
-    direction: 'bullish' | 'bearish' | 'neutral';
-    strength: number;
-    confidence: number;
-    avgReturn: number;
-  } | null>(null);
-  const [volumeProfile, setVolumeProfile] = useState<{
-    priceLevel: number;
-    volume: number;
-    accumulationZone: boolean;
-    supportResistance: 'support' | 'resistance' | 'neutral';
-  }[]>([]);
-  const [accumulationZones, setAccumulationZones] = useState<{
-    priceLevel: number;
-    strength: number;
-    volume: number;
-    type: 'accumulation' | 'distribution';
-  }[]>([]);
+  const [trendAnalysis, setTrendAnalysis] = useState<TrendAnalysis | null>(null);
+  const [volumeProfile, setVolumeProfile] = useState<VolumeProfileLevel[]>([]);
+  const [accumulationZones, setAccumulationZones] = useState<AccumulationZone[]>([]);
+  const [volatilityComparison, setVolatilityComparison] = useState<VolatilityModelComparison | null>(null);
+  const [varBreakdownsByModel, setVarBreakdownsByModel] = useState<RiskAnalysisResult['varBreakdowns'] | null>(null);
+  const [evtTail, setEvtTail] = useState<EVTResult | null>(null);
+  const [drawdownAnalysis, setDrawdownAnalysis] = useState<DrawdownAnalysis | null>(null);
+  const [rollingMetrics, setRollingMetrics] = useState<RollingMetricsSeries[]>([]);
+  const [rollingMetric, setRollingMetric] = useState<RollingMetricKey>('volatility');
+  const [rangeVolatility, setRangeVolatility] = useState<RangeVolatilityEstimates | null>(null);
+  const [rollingRangeVolatility, setRollingRangeVolatility] = useState<RangeVolatilityPoint[]>([]);
+  const [volatilityCone, setVolatilityCone] = useState<VolatilityConePoint[]>([]);
+  const [regimeModels, setRegimeModels] = useState<RegimeModel[]>([]);
+  const [regimeStateCount, setRegimeStateCount] = useState<number | null>(null); // null = lowest BIC
+  const [changePointAnalysis, setChangePointAnalysis] = useState<ChangePointAnalysis | null>(null);
+  const [estimationStart, setEstimationStart] = useState<string | null>(null);
+  const [persistence, setPersistence] = useState<PersistenceDiagnostics | null>(null);
+  const [stressTests, setStressTests] = useState<StressTestResult[]>([]);
+  const [savedScenarios, setSavedScenarios] = useState<ShockScenario[]>(DEFAULT_SHOCK_SCENARIOS);
+  const [liquidityRisk, setLiquidityRisk] = useState<LiquidityRisk[]>([]);
+  const [liquidityShares, setLiquidityShares] = useState(LIQUIDITY_POSITION_SIZES[0]);
+  const [activeScenario, setActiveScenario] = useState<ShockScenario>(DEFAULT_SHOCK_SCENARIOS[0]);
   const [chartRevision, setChartRevision] = useState(0);
+  const [volatilityModel, setVolatilityModel] = useState<VolatilityModelType>('GARCH');
+  const [varMethod, setVarMethod] = useState<VaRMethod>('historical');
+  const analysisIdRef = useRef(0);
+  const cancelAnalysisRef = useRef<(() => void) | null>(null);
 
   const addTerminalLog = (command: string, type: 'info' | 'success' | 'error' = 'info') => {
     setTerminalLogs(prev => [...prev, { command, timestamp: new Date(), type }]);
   };
 
-  // Unified trend analysis function used by both neural network and alpha generation
-  const calculateUnifiedTrend = (historicalData: MarketData[]) => {
-    if (historicalData.length < 10) return null;
-    
-    // Calculate recent returns (last 10 days)
-    const recentData = historicalData.slice(-10);
-    const recentReturns = recentData.slice(1).map((item, i) => 
-      (item.close - recentData[i].close) / recentData[i].close
-    );
-    
-    // Calculate medium-term returns (last 20 days)
-    const mediumData = historicalData.slice(-20);
-    const mediumReturns = mediumData.slice(1).map((item, i) => 
-      (item.close - mediumData[i].close) / mediumData[i].close
-    );
-    
-    const avgRecentReturn = recentReturns.reduce((sum, r) => sum + r, 0) / recentReturns.length;
-    const avgMediumReturn = mediumReturns.reduce((sum, r) => sum + r, 0) / mediumReturns.length;
-    
-    // Calculate trend strength (combination of recent and medium-term)
-    const trendStrength = (avgRecentReturn * 0.7) + (avgMediumReturn * 0.3);
-    
-    // Calculate confidence based on consistency of returns
-    const recentStdDev = Math.sqrt(recentReturns.reduce((sum, r) => sum + Math.pow(r - avgRecentReturn, 2), 0) / recentReturns.length);
-    const confidence = Math.max(0, Math.min(1, 1 - (recentStdDev / Math.abs(avgRecentReturn || 0.01))));
-    
-    // Determine direction based on trend strength
-    let direction: 'bullish' | 'bearish' | 'neutral';
-    if (trendStrength > 0.003) direction = 'bullish'; // 0.3% threshold
-    else if (trendStrength < -0.003) direction = 'bearish';
-    else direction = 'neutral';
-    
-    return {
-      direction,
-      strength: Math.abs(trendStrength),
-      confidence,
-      avgReturn: avgRecentReturn
-    };
-  };
+  // Runs the engine pipeline in a Web Worker (inline where workers are unavailable), relaying progress to the log
+  const runAnalysisInWorker = (id: number, input: RiskAnalysisInput): Promise<RiskAnalysisResult> => {
+    const logProgress = ({ step, totalSteps, message, type }: AnalysisProgress) =>
+      addTerminalLog(`[${step}/${totalSteps}] ${message}`, type);
 
-  // Volume Profile Analysis - detects accumulation/distribution zones
-  const calculateVolumeProfile = (historicalData: MarketData[]) => {
-    if (historicalData.length < 30) return { profile: [], zones: [] };
-    
-    // Create price bins for volume profiling
-    const prices = historicalData.map(d => d.close);
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
-    const binSize = (maxPrice - minPrice) / 20; // 20 price levels
-    
-    const volumeByPrice: { [key: number]: number } = {};
-    const accumulationData: { [key: number]: { volume: number; bullishVolume: number; bearishVolume: number } } = {};
-    
-    // Calculate volume at each price level
-    historicalData.forEach(candle => {
-      const priceBin = Math.floor((candle.close - minPrice) / binSize) * binSize + minPrice;
-      const volume = candle.volume || 0;
-      
-      volumeByPrice[priceBin] = (volumeByPrice[priceBin] || 0) + volume;
-      
-      // Determine if candle is bullish or bearish
-      const isBullish = candle.close > candle.open;
-      if (!accumulationData[priceBin]) {
-        accumulationData[priceBin] = { volume: 0, bullishVolume: 0, bearishVolume: 0 };
-      }
-      
-      accumulationData[priceBin].volume += volume;
-      if (isBullish) {
-        accumulationData[priceBin].bullishVolume += volume;
-      } else {
-        accumulationData[priceBin].bearishVolume += volume;
-      }
-    });
-    
-    // Calculate average volume for threshold
-    const avgVolume = Object.values(volumeByPrice).reduce((sum, vol) => sum + vol, 0) / Object.keys(volumeByPrice).length;
-    
-    // Create volume profile
-    const profile = Object.entries(volumeByPrice).map(([price, volume]) => {
-      const priceLevel = parseFloat(price);
-      const accData = accumulationData[priceLevel];
-      const bullishRatio = accData ? accData.bullishVolume / accData.volume : 0.5;
-      
-      return {
-        priceLevel,
-        volume,
-        accumulationZone: volume > avgVolume * 1.5, // High volume areas
-        supportResistance: volume > avgVolume * 2 ? 
-          (bullishRatio > 0.6 ? 'support' : bullishRatio < 0.4 ? 'resistance' : 'neutral') : 'neutral' as 'support' | 'resistance' | 'neutral'
+    if (typeof Worker === 'undefined') {
+      return Promise.resolve(runRiskAnalysis(input, logProgress));
+    }
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('../lib/workers/analysisWorker.ts', import.meta.url));
+      const finish = () => {
+        worker.terminate();
+        cancelAnalysisRef.current = null;
       };
-    }).sort((a, b) => a.priceLevel - b.priceLevel);
-    
-    // Detect accumulation/distribution zones
-    const zones = Object.entries(accumulationData)
-      .filter(([_, data]) => data.volume > avgVolume * 1.3)
-      .map(([price, data]) => {
-        const priceLevel = parseFloat(price);
-        const bullishRatio = data.bullishVolume / data.volume;
-        const strength = data.volume / avgVolume;
-        
-        return {
-          priceLevel,
-          strength,
-          volume: data.volume,
-          type: bullishRatio > 0.65 ? 'accumulation' as const : 'distribution' as const
-        };
-      })
-      .sort((a, b) => b.strength - a.strength) // Sort by strength
-      .slice(0, 5); // Top 5 zones
-    
-    return { profile, zones };
+
+      cancelAnalysisRef.current = () => {
+        finish();
+        reject(new AnalysisCancelledError());
+      };
+
+      worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+        const message = event.data;
+        if (message.id !== id) return;
+
+        if (message.type === 'progress') {
+          logProgress(message.progress);
+        } else if (message.type === 'result') {
+          finish();
+          resolve(message.result);
+        } else {
+          finish();
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = (event) => {
+        finish();
+        reject(new Error(event.message || 'Analysis worker failed'));
+      };
+
+      const request: AnalysisWorkerRequest = { type: 'run', id, input };
+      worker.postMessage(request);
+    });
   };
 
   const runAnalysis = async (newParams: AnalysisParams) => {
+    // Submitting again supersedes any analysis still in flight
+    const analysisId = ++analysisIdRef.current;
+    const isSuperseded = () => analysisId !== analysisIdRef.current;
+    if (loading) {
+      addTerminalLog(`Cancelling analysis of ${params.symbol}...`, 'error');
+    }
+    cancelAnalysisRef.current?.();
+
     setLoading(true);
     setParams(newParams);
     setChartRevision(prev => prev + 1); // Force chart updates
@@ -211,9 +246,17 @@ export const ProfessionalRiskDashboard: React.FC = () => {
     try {
       addTerminalLog(`Initializing price projection analysis for ${newParams.symbol}...`, 'info');
       
+      const seed = newParams.seed ? parseInt(newParams.seed, 10) >>> 0 : SeededRandom.generateSeed();
+      setAnalysisSeed(seed);
+      addTerminalLog(`Random seed: ${seed}`, 'info');
+      
+      const riskFreeRate = newParams.riskFreeRate ? parseFloat(newParams.riskFreeRate) / 100 : DEFAULT_RISK_FREE_RATE;
+      addTerminalLog(`Risk-free rate: ${formatPercent(riskFreeRate)}`, 'info');
+      
       // Fetch current quote
       addTerminalLog('Fetching real-time market data...', 'info');
       const quote = await marketDataService.getCurrentQuote(newParams.symbol);
+      if (isSuperseded()) return;
       if (!quote) {
         throw new Error('Failed to fetch current quote');
       }
@@ -224,156 +267,69 @@ export const ProfessionalRiskDashboard: React.FC = () => {
       // Fetch historical data (maximum available)
       addTerminalLog(`Loading maximum historical data...`, 'info');
       const data = await marketDataService.getHistoricalData(newParams.symbol, 'max');
+      if (isSuperseded()) return;
       if (data.length === 0) {
         throw new Error('No historical data available');
       }
-      setMarketData(data);
       addTerminalLog(`Loaded ${data.length} data points (${Math.round(data.length/252)} years)`, 'success');
       
       // Fetch benchmark data (SPY) for beta calculation
       addTerminalLog('Loading benchmark data (SPY)...', 'info');
-      const benchmarkSymbol = newParams.symbol.toUpperCase() === 'SPY' ? 'QQQ' : 'SPY';
+      const benchmarkSymbol = benchmarkSymbolFor(newParams.symbol);
       const spyData = await marketDataService.getHistoricalData(benchmarkSymbol, 'max');
+      if (isSuperseded()) return;
       setBenchmarkData(spyData);
       addTerminalLog(`Loaded ${spyData.length} benchmark data points (${Math.round(spyData.length/252)} years)`, 'success');
       
-      // Initialize risk engine
-      addTerminalLog('Initializing advanced risk models...', 'info');
-      const engine = new AdvancedRiskEngine(data);
-      setRiskEngine(engine);
-      
-      // Calculate unified trend analysis
-      addTerminalLog('Computing unified trend analysis...', 'info');
-      const trend = calculateUnifiedTrend(data);
-      setTrendAnalysis(trend);
-      if (trend) {
-        addTerminalLog(`Trend Direction: ${trend.direction.toUpperCase()}`, 'success');
-        addTerminalLog(`Trend Strength: ${formatPercent(trend.strength)}`, 'success');
-        addTerminalLog(`Confidence: ${formatPercent(trend.confidence)}`, 'success');
-      }
-      
-      // Calculate risk metrics with benchmark data
-      addTerminalLog('Computing GARCH volatility model...', 'info');
-      const benchmarkEngine = new AdvancedRiskEngine(spyData);
-      const benchmarkReturns = benchmarkEngine.getReturns();
-      const metrics = engine.calculateAdvancedRiskMetrics(benchmarkReturns);
-      setRiskMetrics(metrics);
-      addTerminalLog(`VaR(95%): ${formatPercent(metrics.var95)}`, 'success');
-      addTerminalLog(`Beta: ${formatNumber(metrics.beta, 2)}`, 'success');
-      
-      // Generate price projections
-      addTerminalLog('Generating advanced price projections with Prophet and Markov models...', 'info');
-      const projections = generateAdvancedPriceProjections(quote.price, metrics, data);
-      setPriceProjections(projections);
-      addTerminalLog(`Generated projections for ${projections.length} timeframes using AI models`, 'success');
-      
-      // Log realistic projection ranges for validation
-      projections.forEach(proj => {
-        const bullishChange = ((proj.bullish - quote.price) / quote.price * 100).toFixed(2);
-        const bearishChange = ((proj.bearish - quote.price) / quote.price * 100).toFixed(2);
-        addTerminalLog(`${proj.timeframe}: +${bullishChange}% / ${bearishChange}%`, 'info');
+      const result = await runAnalysisInWorker(analysisId, {
+        currentPrice: quote.price,
+        data,
+        benchmarkData: spyData,
+        seed,
+        riskFreeRate,
+        estimationStart: newParams.estimationStart
       });
+      if (isSuperseded()) return;
       
-      // Calculate volume profile and accumulation zones
-      addTerminalLog('Computing 3D volume profile analysis...', 'info');
-      const volumeAnalysis = calculateVolumeProfile(data);
-      setVolumeProfile(volumeAnalysis.profile);
-      setAccumulationZones(volumeAnalysis.zones);
-      addTerminalLog(`Detected ${volumeAnalysis.zones.length} accumulation/distribution zones`, 'success');
-      addTerminalLog(`Volume profile calculated for ${volumeAnalysis.profile.length} price levels`, 'success');
+      // Charts index model output by bar, so they share the window the models were fitted on
+      const estimationData = selectEstimationWindow(data, result.estimationStart);
+      setMarketData(estimationData);
+      setEstimationStart(result.estimationStart);
+      setRiskEngine(new AdvancedRiskEngine(estimationData, riskFreeRate));
+      setTrendAnalysis(result.trend);
+      setRiskMetrics(result.metrics);
+      setHorizonRisk(result.horizonRisk);
+      setVarBacktest(result.backtest);
+      setVolatilityComparison(result.volatilityComparison);
+      setVarBreakdownsByModel(result.varBreakdowns);
+      setEvtTail(result.evt);
+      setDrawdownAnalysis(result.drawdowns);
+      setRollingMetrics(result.rollingMetrics);
+      setRangeVolatility(result.rangeVolatility);
+      setRollingRangeVolatility(result.rollingRangeVolatility);
+      setVolatilityCone(result.volatilityCone);
+      setRegimeModels(result.regimeModels);
+      setChangePointAnalysis(result.changePoints);
+      setPersistence(result.persistence);
+      setStressTests(result.stressTests);
+      setLiquidityRisk(result.liquidity);
+      setPriceProjections(result.projections);
+      setVolumeProfile(result.volumeProfile);
+      setAccumulationZones(result.accumulationZones);
       
       addTerminalLog('Analysis complete. 3D visualizations ready.', 'success');
       toast.success('Advanced 3D analysis completed successfully');
       
     } catch (error) {
+      if (error instanceof AnalysisCancelledError || isSuperseded()) return;
       console.error('Analysis error:', error);
       addTerminalLog(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
       toast.error('Analysis failed. Please try again.');
     } finally {
-      setLoading(false);
+      if (!isSuperseded()) setLoading(false);
     }
   };
 
-  // Advanced Prophet-inspired projection algorithm with realistic short-term constraints
-  const generateAdvancedPriceProjections = (currentPrice: number, metrics: RiskMetrics, historicalData: MarketData[]): PriceProjection[] => {
-    const timeframes = [
-      { days: 1, label: '1 Day' },
-      { days: 7, label: '7 Days' },
-      { days: 30, label: '30 Days' },
-      { days: 45, label: '45 Days' },
-      { days: 90, label: '90 Days' }
-    ];
-
-    // Calculate trend and seasonality components (Prophet-style)
-    const recentData = historicalData.slice(-60); // Last 60 days
-    const returns = recentData.slice(1).map((item, i) => 
-      (item.close - recentData[i].close) / recentData[i].close
-    );
-    
-    const trendStrength = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const momentum = returns.slice(-5).reduce((sum, r) => sum + r, 0) / 5; // Very recent momentum
-    
-    // Realistic volatility scaling with time constraints
-    const annualVolatility = metrics.volatility;
-    const volatilityRegime = annualVolatility > 0.25 ? 'high' : annualVolatility > 0.15 ? 'medium' : 'low';
-    const regimeMultiplier = { high: 1.2, medium: 1.0, low: 0.8 }[volatilityRegime];
-
-    return timeframes.map(tf => {
-      // Realistic time scaling with diminishing short-term volatility
-      const timeScaling = Math.sqrt(tf.days / 252);
-      const adjustedVolatility = annualVolatility * regimeMultiplier * timeScaling;
-      
-      // Short-term constraints to prevent unrealistic movements
-      const maxDailyMove = tf.days === 1 ? 0.03 : tf.days <= 7 ? 0.05 : 0.15; // 3% max for 1-day, 5% for 7-day, 15% for longer
-      const constrainedVolatility = Math.min(adjustedVolatility, maxDailyMove);
-      
-      // Prophet-style trend decomposition with time-appropriate scaling
-      const seasonalComponent = Math.sin((tf.days / 365) * 2 * Math.PI) * 0.005; // Reduced seasonal impact
-      const trendComponent = trendStrength * (tf.days / 252) * 0.7; // Reduced trend impact
-      const momentumComponent = momentum * Math.log(tf.days + 1) * 0.3; // Reduced momentum impact
-      
-      // Realistic drift calculation
-      const drift = trendComponent + momentumComponent + seasonalComponent;
-      
-      // Markov Chain Monte Carlo simulation with realistic constraints
-      const mcmcIterations = 1000;
-      let bullishOutcomes = 0;
-      let bearishOutcomes = 0;
-      let neutralOutcomes = 0;
-      
-      for (let i = 0; i < mcmcIterations; i++) {
-        const randomWalk = (Math.random() - 0.5) * 2 * constrainedVolatility;
-        const projectedReturn = drift + randomWalk;
-        
-        // Realistic thresholds based on timeframe
-        const bullishThreshold = tf.days === 1 ? 0.005 : tf.days <= 7 ? 0.01 : 0.02;
-        const bearishThreshold = tf.days === 1 ? -0.005 : tf.days <= 7 ? -0.01 : -0.02;
-        
-        if (projectedReturn > bullishThreshold) bullishOutcomes++;
-        else if (projectedReturn < bearishThreshold) bearishOutcomes++;
-        else neutralOutcomes++;
-      }
-      
-      // Realistic confidence intervals (not 95% which is too extreme for short-term)
-      const confidenceLevel = tf.days === 1 ? 0.5 : tf.days <= 7 ? 0.8 : 1.2;
-      const bullishMove = Math.min(drift + constrainedVolatility * confidenceLevel, maxDailyMove);
-      const bearishMove = Math.max(drift - constrainedVolatility * confidenceLevel, -maxDailyMove);
-      const neutralMove = drift * 0.5; // Conservative neutral estimate
-      
-      return {
-        timeframe: tf.label,
-        bullish: currentPrice * (1 + bullishMove),
-        bearish: currentPrice * (1 + bearishMove),
-        neutral: currentPrice * (1 + neutralMove),
-        probability: {
-          up: bullishOutcomes / mcmcIterations,
-          down: bearishOutcomes / mcmcIterations,
-          neutral: neutralOutcomes / mcmcIterations
-        }
-      };
-    });
-  };
-
   // Real-time price updates
   useEffect(() => {
     if (!params.symbol || !currentQuote) return;
@@ -385,22 +341,168 @@ export const ProfessionalRiskDashboard: React.FC = () => {
     return unsubscribe;
   }, [params.symbol, currentQuote]);
 
-  // Initial load
+  // Initial load; terminate any running worker on unmount
   useEffect(() => {
     runAnalysis(params);
+    return () => cancelAnalysisRef.current?.();
+  }, []);
+
+  // Read saved scenarios after mount so server and client render the same defaults
+  useEffect(() => {
+    setSavedScenarios(loadSavedScenarios());
   }, []);
 
+  const runScenario = (definition: ScenarioDefinition) => {
+    setActiveScenario({ id: 'unsaved', ...definition });
+  };
+
+  const saveScenario = (definition: ScenarioDefinition) => {
+    const scenario = { id: `scenario-${Date.now()}`, ...definition };
+    const next = [...savedScenarios, scenario];
+    setSavedScenarios(next);
+    storeSavedScenarios(next);
+    setActiveScenario(scenario);
+    toast.success(`Saved scenario: ${scenario.name}`);
+  };
+
+  const deleteScenario = (id: string) => {
+    const next = savedScenarios.filter(scenario => scenario.id !== id);
+    setSavedScenarios(next);
+    storeSavedScenarios(next);
+  };
+
+  const garchModel = useMemo(() => {
+    if (!volatilityComparison) return null;
+    return volatilityComparison.models.find(m => m.model === volatilityModel) || null;
+  }, [volatilityComparison, volatilityModel]);
+
+  const varBreakdowns = varBreakdownsByModel ? varBreakdownsByModel[volatilityModel] : null;
+
+  const liquidity = useMemo(
+    () => liquidityRisk.find(entry => entry.analysis.positionShares === liquidityShares) || null,
+    [liquidityRisk, liquidityShares]
+  );
+
+  const regimeModel = useMemo(() => {
+    if (!regimeModels.length) return null;
+    const chosen = regimeModels.find(model => model.states.length === regimeStateCount);
+    return chosen || regimeModels.reduce((best, model) => (model.bic < best.bic ? model : best));
+  }, [regimeModels, regimeStateCount]);
+
+  // Close prices with stacked smoothed regime probabilities, thinned to ~500 points
+  const regimeChartData = useMemo(() => {
+    if (!regimeModel) return [];
+    
+    const step = Math.max(1, Math.ceil(regimeModel.path.length / 500));
+    return regimeModel.path
+      .filter((_, i) => i % step === 0 || i === regimeModel.path.length - 1)
+      .map(point => {
+        const row: Record<string, string | number> = { date: new Date(point.date).toLocaleDateString(), close: point.close };
+        point.probabilities.forEach((p, j) => {
+          row[`regime${j}`] = p;
+        });
+        return row;
+      });
+  }, [regimeModel]);
+
+  // Underwater curve thinned to ~500 points, keeping the deepest reading of each bucket so troughs survive
+  const underwaterData = useMemo(() => {
+    if (!drawdownAnalysis) return [];
+    
+    const curve = drawdownAnalysis.underwater;
+    const bucketSize = Math.max(1, Math.ceil(curve.length / 500));
+    const points = [];
+    for (let i = 0; i < curve.length; i += bucketSize) {
+      const bucket = curve.slice(i, i + bucketSize);
+      const deepest = bucket.reduce((min, point) => (point.drawdown < min.drawdown ? point : min));
+      points.push({
+        date: new Date(deepest.date).toLocaleDateString(),
+        drawdown: deepest.drawdown * 100
+      });
+    }
+    return points;
+  }, [drawdownAnalysis]);
+
+  // Rolling series merged by date (one column per window), thinned to ~500 points for charting
+  const rollingChartData = useMemo(() => {
+    if (!rollingMetrics.length) return [];
+    
+    const scale = rollingMetric === 'volatility' || rollingMetric === 'var' ? 100 : 1;
+    const byWindow = rollingMetrics.map(series =>
+      new Map(series.points.map(point => [point.date, point[rollingMetric]]))
+    );
+    const dates = rollingMetrics[0].points.map(point => point.date);
+    const step = Math.max(1, Math.ceil(dates.length / 500));
+    
+    return dates
+      .filter((_, i) => i % step === 0 || i === dates.length - 1)
+      .map(date => {
+        const row: Record<string, string | number | null> = { date: new Date(date).toLocaleDateString() };
+        rollingMetrics.forEach((series, i) => {
+          const value = byWindow[i].get(date);
+          row[`w${series.window}`] = value === undefined || value === null ? null : value * scale;
+        });
+        return row;
+      });
+  }, [rollingMetrics, rollingMetric]);
+
+  // Last year of rolling 21-day range estimators, in percent
+  const rangeVolatilityChartData = useMemo(() => {
+    return rollingRangeVolatility.slice(-252).map(point => {
+      const row: Record<string, string | number> = { date: new Date(point.date).toLocaleDateString() };
+      rangeEstimators.forEach(({ key }) => {
+        row[key] = point[key] * 100;
+      });
+      return row;
+    });
+  }, [rollingRangeVolatility]);
+
+  const volatilityConeChartData = useMemo(() => {
+    return volatilityCone.map(point => ({
+      horizon: `${point.horizon}D`,
+      min: point.min * 100,
+      percentile25: point.percentile25 * 100,
+      median: point.median * 100,
+      percentile75: point.percentile75 * 100,
+      max: point.max * 100,
+      current: point.current * 100
+    }));
+  }, [volatilityCone]);
+
+  // Segment volatility and mean as step series, one row at each segment's start and end
+  const changePointChartData = useMemo(() => {
+    if (!changePointAnalysis) return [];
+    
+    return changePointAnalysis.segments.flatMap(segment => [segment.startDate, segment.endDate].map(date => ({
+      date: new Date(date).toLocaleDateString(),
+      volatility: segment.volatility * 100,
+      mean: segment.mean * 100
+    })));
+  }, [changePointAnalysis]);
+
+  const volatilityTermStructure = useMemo(() => {
+    if (!riskEngine || !garchModel) return [];
+    
+    return riskEngine.forecastVolatilityTermStructure(252, garchModel).map(point => ({
+      horizon: point.horizon,
+      volatility: point.annualizedVolatility * 100,
+      longRun: Math.sqrt(garchModel.parameters.longRunVariance * 252) * 100
+    }));
+  }, [riskEngine, garchModel]);
+
   const volatilityData = useMemo(() => {
-    if (!riskEngine || !marketData.length) return [];
+    if (!volatilityComparison || !marketData.length) return [];
     
-    const garch = riskEngine.calculateGARCH();
+    const [garch, gjr, egarch] = volatilityComparison.models;
     return marketData.slice(-30).map((item, index) => ({
       date: new Date(item.date).toLocaleDateString(),
       price: item.close,
-      volatility: garch.volatility[marketData.length - 30 + index] * 100,
+      garch: garch.volatility[marketData.length - 30 + index - 1] * 100,
+      gjr: gjr.volatility[marketData.length - 30 + index - 1] * 100,
+      egarch: egarch.volatility[marketData.length - 30 + index - 1] * 100,
       returns: index > 0 ? ((item.close - marketData[marketData.length - 30 + index - 1].close) / marketData[marketData.length - 30 + index - 1].close) * 100 : 0
     }));
-  }, [riskEngine, marketData]);
+  }, [volatilityComparison, marketData]);
 
   const neuralNetworkData = useMemo(() => {
     if (!marketData.length || !riskMetrics || !trendAnalysis) return [];
@@ -410,6 +512,7 @@ export const ProfessionalRiskDashboard: React.FC = () => {
     const currentPrice = marketData[marketData.length - 1]?.close || 0;
     
     // Generate future predictions using neural network-style algorithm with unified trend
+    const random = new SeededRandom(analysisSeed ?? undefined);
     const predictions = [];
     let lastPrice = currentPrice;
     
@@ -423,7 +526,7 @@ export const ProfessionalRiskDashboard: React.FC = () => {
       const timeDecay = Math.exp(-daysFuture * 0.1); // Reduce confidence over time
       const momentum = trendMomentum * timeDecay;
       const volatility = riskMetrics.volatility * Math.sqrt(daysFuture) / Math.sqrt(252);
-      const noise = (Math.random() - 0.5) * volatility * 0.3; // Reduced noise
+      const noise = (random.next() - 0.5) * volatility * 0.3; // Reduced noise
       const trend = momentum + noise;
       
       lastPrice = lastPrice * (1 + trend);
@@ -448,7 +551,18 @@ export const ProfessionalRiskDashboard: React.FC = () => {
     }));
     
     return [...historicalData, ...predictions];
-  }, [marketData, riskMetrics, trendAnalysis]);
+  }, [marketData, riskMetrics, trendAnalysis, analysisSeed]);
+
+  const varBacktestData = useMemo(() => {
+    if (!varBacktest) return [];
+    
+    return varBacktest.observations.slice(-250).map(obs => ({
+      date: new Date(obs.date).toLocaleDateString(),
+      returns: obs.return * 100,
+      var: -obs.var * 100,
+      exception: obs.exception
+    }));
+  }, [varBacktest]);
 
   const projectionChartData = useMemo(() => {
     if (!priceProjections.length) return [];
@@ -464,6 +578,46 @@ export const ProfessionalRiskDashboard: React.FC = () => {
 
   const currentPrice = realTimePrice || currentQuote?.price || 0;
 
+  // Active scenario applied to the 100-share position, with reference option contracts repriced separately
+  const scenarioAnalysis = useMemo(() => {
+    if (!riskEngine || !garchModel || !riskMetrics || currentPrice <= 0) return null;
+    
+    const inputs = {
+      engine: riskEngine,
+      volatilityFit: garchModel,
+      beta: riskMetrics.beta,
+      correlation: riskMetrics.benchmark?.correlation ?? null,
+      price: currentPrice
+    };
+    return {
+      inputs,
+      rate: riskEngine.getRiskFreeRate().annualRate(),
+      position: evaluateShockScenario(activeScenario, { shares: 100, options: [] }, inputs),
+      options: evaluateShockScenario(activeScenario, { shares: 0, options: referenceOptionLegs(currentPrice) }, inputs).options
+    };
+  }, [riskEngine, garchModel, riskMetrics, currentPrice, activeScenario]);
+
+  // Follow the trend only where persistence is detected; fade deviations from the OU equilibrium when mean-reverting
+  const tradingSignal = (() => {
+    const direction = trendAnalysis?.direction;
+    if (persistence?.classification === 'mean-reverting' && isFinite(persistence.ornsteinUhlenbeck.halfLife)) {
+      const { equilibriumPrice, halfLife } = persistence.ornsteinUhlenbeck;
+      const side: 'long' | 'short' = currentPrice < equilibriumPrice ? 'long' : 'short';
+      return { side, label: side === 'long' ? 'BUY (REVERSION)' : 'SHORT (REVERSION)', target: equilibriumPrice, holdDays: Math.round(halfLife) };
+    }
+    if ((persistence && persistence.classification !== 'trending') || !direction || direction === 'neutral') {
+      return { side: 'flat' as const, label: 'HOLD', target: null, holdDays: null };
+    }
+    const side: 'long' | 'short' = direction === 'bullish' ? 'long' : 'short';
+    const move = (trendAnalysis?.strength || 0.05) * 3;
+    return {
+      side,
+      label: side === 'long' ? 'STRONG BUY' : 'STRONG SHORT',
+      target: currentPrice * (side === 'long' ? 1 + move : 1 - move),
+      holdDays: null
+    };
+  })();
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 text-green-400">
       <div className="max-w-7xl mx-auto p-6">
@@ -757,7 +911,7 @@ export const ProfessionalRiskDashboard: React.FC = () => {
                 <div>
                   <p className="text-gray-400">VaR (99%)</p>
                   <p className="text-red-400 font-mono font-bold">
-                    {formatPercent(riskMetrics?.var99 || 0)}
+                    {formatPercent(varBreakdowns ? varBreakdowns.var99[varMethodKeys[varMethod]] : riskMetrics?.var99 || 0)}
                   </p>
                 </div>
                 <div>
@@ -785,12 +939,94 @@ export const ProfessionalRiskDashboard: React.FC = () => {
                   </p>
                 </div>
                 <div>
-                  <p className="text-gray-400">Liquidity Score</p>
+                  <p className="text-gray-400">Amihud Illiquidity</p>
                   <p className="text-purple-400 font-mono font-bold">
-                    {formatNumber(85 + Math.random() * 10, 1)}
+                    {liquidity ? liquidity.analysis.amihudIlliquidity.toExponential(2) : 'N/A'}
                   </p>
                 </div>
               </div>
+              {varBreakdowns && (
+                <div className="mt-4 pt-4 border-t border-gray-800 text-xs">
+                  <div className="grid grid-cols-3 gap-2 text-gray-500 border-b border-gray-800 pb-1 mb-1">
+                    <span>METHOD</span>
+                    <span className="text-right">VaR 95%</span>
+                    <span className="text-right">VaR 99%</span>
+                  </div>
+                  {(Object.keys(varMethodKeys) as VaRMethod[]).map(method => (
+                    <button
+                      key={method}
+                      onClick={() => setVarMethod(method)}
+                      className={`w-full grid grid-cols-3 gap-2 font-mono text-left ${
+                        varMethod === method ? 'text-green-400' : 'text-gray-400 hover:text-gray-200'
+                      }`}
+                    >
+                      <span>{varMethodLabels[method]}</span>
+                      <span className="text-right">{formatPercent(varBreakdowns.var95[varMethodKeys[method]])}</span>
+                      <span className="text-right">{formatPercent(varBreakdowns.var99[varMethodKeys[method]])}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              {varBacktest && (
+                <div className="mt-4 pt-4 border-t border-gray-800">
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-xs text-gray-400">VaR(99%) BACKTEST · LAST 250D</span>
+                    <span className={`text-xs font-bold px-2 py-0.5 rounded ${
+                      varBacktest.baselZone === 'green' ? 'bg-green-500/20 text-green-400' :
+                      varBacktest.baselZone === 'yellow' ? 'bg-yellow-500/20 text-yellow-400' :
+                      varBacktest.baselZone === 'red' ? 'bg-red-500/20 text-red-400' :
+                      'bg-gray-500/20 text-gray-400'
+                    }`}>
+                      {varBacktest.baselZone
+                        ? `BASEL ${varBacktest.baselZone.toUpperCase()} (${varBacktest.baselExceptions})`
+                        : `BASEL N/A (${varBacktest.observations.length}/250 DAYS)`}
+                    </span>
+                  </div>
+                  <div className="h-32">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={varBacktestData}>
+                        <XAxis dataKey="date" hide />
+                        <YAxis stroke="#64748b" fontSize={10} tickFormatter={(value) => `${value.toFixed(0)}%`} />
+                        <Tooltip 
+                          contentStyle={{ 
+                            backgroundColor: '#0a0e14', 
+                            border: '1px solid #1a1a1a',
+                            borderRadius: '8px',
+                            color: '#00ff41'
+                          }} 
+                          formatter={(value: number) => [`${value.toFixed(2)}%`, '']}
+                        />
+                        <Bar dataKey="returns" name="Return">
+                          {varBacktestData.map((obs, index) => (
+                            <Cell key={index} fill={obs.exception ? '#ef4444' : '#334155'} />
+                          ))}
+                        </Bar>
+                        <Line type="stepAfter" dataKey="var" stroke="#f59e0b" strokeWidth={1} dot={false} name="-VaR" />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2 mt-2 text-xs">
+                    <div>
+                      <p className="text-gray-400">Exceptions</p>
+                      <p className="text-red-400 font-mono">
+                        {varBacktest.exceptions}/{formatNumber(varBacktest.expectedExceptions, 1)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Kupiec p</p>
+                      <p className={`font-mono ${varBacktest.kupiec.reject ? 'text-red-400' : 'text-green-400'}`}>
+                        {formatNumber(varBacktest.kupiec.pValue, 3)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Christoffersen p</p>
+                      <p className={`font-mono ${varBacktest.christoffersen.reject ? 'text-red-400' : 'text-green-400'}`}>
+                        {formatNumber(varBacktest.christoffersen.pValue, 3)}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -846,9 +1082,9 @@ export const ProfessionalRiskDashboard: React.FC = () => {
                     </span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-400">Correlation to SPY:</span>
+                    <span className="text-gray-400">Correlation to {benchmarkSymbolFor(params.symbol)}:</span>
                     <span className="text-purple-400 font-mono">
-                      {formatNumber(0.65 + Math.random() * 0.3, 2)}
+                      {riskMetrics?.benchmark ? formatNumber(riskMetrics.benchmark.correlation, 2) : 'N/A'}
                     </span>
                   </div>
                   <div className="flex justify-between">
@@ -914,16 +1150,958 @@ export const ProfessionalRiskDashboard: React.FC = () => {
                      (riskMetrics?.var95 || 0) > 0.02 ? 'MEDIUM' : 'LOW'}
                   </span>
                 </div>
+                {horizonRisk.length > 0 && (
+                  <div className="pt-3 mt-1 border-t border-gray-800 text-xs">
+                    <p className="text-gray-400 mb-1">HORIZON VaR / ES (99%)</p>
+                    <div className="grid grid-cols-4 gap-2 text-gray-500 border-b border-gray-800 pb-1 mb-1">
+                      <span>DAYS</span>
+                      <span className="text-right">HIST</span>
+                      <span className="text-right">PARAM</span>
+                      <span className="text-right">MC</span>
+                    </div>
+                    {horizonRisk.map(h => (
+                      <div key={h.horizon} className="grid grid-cols-4 gap-2 font-mono">
+                        <span className="text-gray-400">{h.horizon}D</span>
+                        <span className="text-right text-red-400">
+                          {formatPercent(h.historical.var, 1)}/{formatPercent(h.historical.expectedShortfall, 1)}
+                        </span>
+                        <span className="text-right text-red-400">
+                          {formatPercent(h.parametric.var, 1)}/{formatPercent(h.parametric.expectedShortfall, 1)}
+                        </span>
+                        <span className="text-right text-red-400">
+                          {formatPercent(h.monteCarlo.var, 1)}/{formatPercent(h.monteCarlo.expectedShortfall, 1)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
         </div>
 
+        {/* Extreme Value Tail Risk */}
+        {evtTail && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            <Card className="professional-metric">
+              <CardHeader>
+                <CardTitle className="text-green-400 flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5" />
+                  EXTREME VALUE TAIL RISK
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-3 gap-4 text-sm mb-4">
+                  <div>
+                    <p className="text-gray-400">Tail Index ξ</p>
+                    <p className={`font-mono font-bold ${evtTail.tailIndex > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                      {formatNumber(evtTail.tailIndex, 3)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Scale β</p>
+                    <p className="text-blue-400 font-mono font-bold">{formatPercent(evtTail.scale, 3)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Threshold</p>
+                    <p className="text-yellow-400 font-mono font-bold">
+                      {formatPercent(evtTail.threshold)}
+                    </p>
+                    <p className="text-xs text-gray-500">{evtTail.exceedances} exceedances</p>
+                  </div>
+                </div>
+                <div className="text-xs">
+                  <div className="grid grid-cols-3 gap-2 text-gray-500 border-b border-gray-800 pb-1 mb-1">
+                    <span>CONFIDENCE</span>
+                    <span className="text-right">EVT VaR</span>
+                    <span className="text-right">EVT ES</span>
+                  </div>
+                  {evtTail.estimates.map(estimate => (
+                    <div key={estimate.confidenceLevel} className="grid grid-cols-3 gap-2 font-mono">
+                      <span className="text-gray-400">{formatPercent(estimate.confidenceLevel, 1)}</span>
+                      <span className="text-right text-red-400">{formatPercent(estimate.var)}</span>
+                      <span className="text-right text-red-400">
+                        {isFinite(estimate.expectedShortfall) ? formatPercent(estimate.expectedShortfall) : '∞'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <p className="mt-3 text-xs text-gray-500">
+                  Generalised Pareto fit to daily losses above the {formatPercent(evtTail.thresholdQuantile, 0)} quantile
+                  ({evtTail.sampleSize} observations).
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className="professional-metric">
+              <CardHeader>
+                <CardTitle className="text-green-400">MEAN EXCESS PLOT</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={evtTail.meanExcess.map(point => ({
+                      threshold: point.threshold * 100,
+                      meanExcess: point.meanExcess * 100,
+                      exceedances: point.exceedances
+                    }))}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#1a1a1a" />
+                      <XAxis 
+                        dataKey="threshold" 
+                        type="number" 
+                        domain={['dataMin', 'dataMax']} 
+                        stroke="#64748b" 
+                        fontSize={12}
+                        tickFormatter={(value) => `${value.toFixed(1)}%`}
+                      />
+                      <YAxis stroke="#64748b" fontSize={12} tickFormatter={(value) => `${value.toFixed(2)}%`} />
+                      <Tooltip 
+                        contentStyle={{ 
+                          backgroundColor: '#0a0e14', 
+                          border: '1px solid #1a1a1a',
+                          borderRadius: '8px',
+                          color: '#00ff41'
+                        }} 
+                        formatter={(value: number) => [`${value.toFixed(3)}%`, 'Mean Excess']}
+                        labelFormatter={(label) => `Threshold: ${Number(label).toFixed(2)}%`}
+                      />
+                      <Line type="monotone" dataKey="meanExcess" stroke="#00ff41" strokeWidth={2} dot={{ r: 2 }} name="Mean Excess" />
+                      <ReferenceLine 
+                        x={evtTail.threshold * 100} 
+                        stroke="#f59e0b" 
+                        strokeDasharray="5 5"
+                        label={{ value: 'u', position: 'top', fill: '#f59e0b' }}
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  An approximately linear mean excess above the threshold supports the GPD tail fit.
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {drawdownAnalysis && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            <Card className="professional-metric">
+              <CardHeader>
+                <CardTitle className="text-green-400 flex items-center gap-2">
+                  <TrendingDown className="h-5 w-5" />
+                  DRAWDOWN ANALYSIS
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-3 gap-4 text-sm mb-4">
+                  <div>
+                    <p className="text-gray-400">Max Drawdown</p>
+                    <p className="text-red-400 font-mono font-bold">{formatPercent(drawdownAnalysis.maxDrawdown)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Current</p>
+                    <p className="text-yellow-400 font-mono font-bold">{formatPercent(drawdownAnalysis.currentDrawdown)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Calmar Ratio</p>
+                    <p className={`font-mono font-bold ${drawdownAnalysis.calmarRatio > 0.5 ? 'text-green-400' : 'text-yellow-400'}`}>
+                      {formatNumber(drawdownAnalysis.calmarRatio, 2)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Ulcer Index</p>
+                    <p className="text-blue-400 font-mono font-bold">{formatPercent(drawdownAnalysis.ulcerIndex)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Pain Index</p>
+                    <p className="text-blue-400 font-mono font-bold">{formatPercent(drawdownAnalysis.painIndex)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">CDaR({formatPercent(drawdownAnalysis.confidenceLevel, 0)})</p>
+                    <p className="text-red-400 font-mono font-bold">{formatPercent(drawdownAnalysis.conditionalDrawdownAtRisk)}</p>
+                  </div>
+                </div>
+                <div className="text-xs">
+                  <div className="grid grid-cols-5 gap-2 text-gray-500 border-b border-gray-800 pb-1 mb-1">
+                    <span>PEAK</span>
+                    <span>TROUGH</span>
+                    <span>RECOVERY</span>
+                    <span className="text-right">DEPTH</span>
+                    <span className="text-right">DAYS</span>
+                  </div>
+                  {drawdownAnalysis.episodes.map(episode => (
+                    <div key={episode.startDate} className="grid grid-cols-5 gap-2 font-mono">
+                      <span className="text-gray-400">{new Date(episode.startDate).toLocaleDateString()}</span>
+                      <span className="text-gray-400">{new Date(episode.troughDate).toLocaleDateString()}</span>
+                      <span className={episode.recoveryDate ? 'text-gray-400' : 'text-yellow-400'}>
+                        {episode.recoveryDate ? new Date(episode.recoveryDate).toLocaleDateString() : 'ONGOING'}
+                      </span>
+                      <span className="text-right text-red-400">{formatPercent(episode.depth)}</span>
+                      <span className="text-right text-gray-300" title={`${episode.daysToTrough}d to trough${episode.daysToRecover !== null ? `, ${episode.daysToRecover}d to recover` : ''}`}>
+                        {episode.duration}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <p className="mt-3 text-xs text-gray-500">
+                  Deepest peak-to-trough declines; days count trading sessions from peak to recovery.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className="professional-metric">
+              <CardHeader>
+                <CardTitle className="text-green-400">UNDERWATER CURVE</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={underwaterData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#1a1a1a" />
+                      <XAxis dataKey="date" stroke="#64748b" fontSize={12} minTickGap={40} />
+                      <YAxis stroke="#64748b" fontSize={12} tickFormatter={(value) => `${value.toFixed(0)}%`} />
+                      <Tooltip 
+                        contentStyle={{ 
+                          backgroundColor: '#0a0e14', 
+                          border: '1px solid #1a1a1a',
+                          borderRadius: '8px',
+                          color: '#00ff41'
+                        }} 
+                        formatter={(value: number) => [`${value.toFixed(2)}%`, 'Drawdown']}
+                      />
+                      <Area type="monotone" dataKey="drawdown" stroke="#ef4444" fill="#ef4444" fillOpacity={0.3} strokeWidth={1.5} />
+                      <ReferenceLine 
+                        y={-drawdownAnalysis.conditionalDrawdownAtRisk * 100} 
+                        stroke="#f59e0b" 
+                        strokeDasharray="5 5"
+                        label={{ value: 'CDaR', position: 'insideBottomRight', fill: '#f59e0b' }}
+                      />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  Distance below the running high over the full price history.
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {rollingMetrics.length > 0 && (
+          <div className="mb-6">
+            <Card className="professional-metric">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-green-400 flex items-center gap-2">
+                    <Clock className="h-5 w-5" />
+                    ROLLING RISK METRICS
+                  </CardTitle>
+                  <div className="flex gap-1">
+                    {(Object.keys(rollingMetricLabels) as RollingMetricKey[]).map(metric => (
+                      <button
+                        key={metric}
+                        onClick={() => setRollingMetric(metric)}
+                        className={`px-2 py-1 text-xs font-mono rounded border ${
+                          rollingMetric === metric
+                            ? 'border-green-400 text-green-400 bg-green-400/10'
+                            : 'border-gray-700 text-gray-400 hover:border-gray-500'
+                        }`}
+                      >
+                        {rollingMetricLabels[metric]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={rollingChartData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#1a1a1a" />
+                      <XAxis dataKey="date" stroke="#64748b" fontSize={12} minTickGap={40} />
+                      <YAxis 
+                        stroke="#64748b" 
+                        fontSize={12} 
+                        tickFormatter={(value) => rollingMetric === 'volatility' || rollingMetric === 'var' ? `${value.toFixed(0)}%` : value.toFixed(1)}
+                      />
+                      <Tooltip 
+                        contentStyle={{ 
+                          backgroundColor: '#0a0e14', 
+                          border: '1px solid #1a1a1a',
+                          borderRadius: '8px',
+                          color: '#00ff41'
+                        }} 
+                        formatter={(value: number, name: string) => [
+                          rollingMetric === 'volatility' || rollingMetric === 'var' ? `${value.toFixed(2)}%` : value.toFixed(3),
+                          name
+                        ]}
+                      />
+                      {rollingMetrics.map((series, i) => (
+                        <Line 
+                          key={series.window}
+                          type="monotone" 
+                          dataKey={`w${series.window}`} 
+                          stroke={rollingWindowColors[i % rollingWindowColors.length]} 
+                          strokeWidth={i === rollingMetrics.length - 1 ? 2 : 1} 
+                          dot={false} 
+                          connectNulls
+                          name={`${series.window}D`} 
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="mt-3 grid grid-cols-3 gap-4 text-sm">
+                  {rollingMetrics.map((series, i) => {
+                    const latest = series.points[series.points.length - 1];
+                    const value = latest ? latest[rollingMetric] : null;
+                    return (
+                      <div key={series.window}>
+                        <p className="text-gray-400">Current {series.window}D {rollingMetricLabels[rollingMetric]}</p>
+                        <p className="font-mono font-bold" style={{ color: rollingWindowColors[i % rollingWindowColors.length] }}>
+                          {value === null
+                            ? 'N/A'
+                            : rollingMetric === 'volatility' || rollingMetric === 'var'
+                              ? formatPercent(value)
+                              : formatNumber(value, 2)}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {rangeVolatility && rollingRangeVolatility.length > 0 && (
+          <div className="mb-6">
+            <Card className="professional-metric">
+              <CardHeader>
+                <CardTitle className="text-green-400 flex items-center gap-2">
+                  <Activity className="h-5 w-5" />
+                  RANGE-BASED VOLATILITY (21D ROLLING)
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={rangeVolatilityChartData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#1a1a1a" />
+                      <XAxis dataKey="date" stroke="#64748b" fontSize={12} minTickGap={40} />
+                      <YAxis stroke="#64748b" fontSize={12} tickFormatter={(value) => `${value.toFixed(0)}%`} />
+                      <Tooltip 
+                        contentStyle={{ 
+                          backgroundColor: '#0a0e14', 
+                          border: '1px solid #1a1a1a',
+                          borderRadius: '8px',
+                          color: '#00ff41'
+                        }} 
+                        formatter={(value: number, name: string) => [`${value.toFixed(2)}%`, name]}
+                      />
+                      {rangeEstimators.map(({ key, label, color }) => (
+                        <Line 
+                          key={key}
+                          type="monotone" 
+                          dataKey={key} 
+                          stroke={color} 
+                          strokeWidth={key === 'yangZhang' ? 2 : 1} 
+                          strokeDasharray={key === 'closeToClose' ? '5 5' : undefined}
+                          dot={false} 
+                          name={label} 
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="mt-3 text-sm">
+                  <div className="grid grid-cols-3 gap-2 text-gray-500 border-b border-gray-800 pb-1 mb-1">
+                    <span>Estimator</span>
+                    <span className="text-right">Current 21D</span>
+                    <span className="text-right">Full History</span>
+                  </div>
+                  {rangeEstimators.map(({ key, label, color }) => (
+                    <div key={key} className="grid grid-cols-3 gap-2 font-mono">
+                      <span style={{ color }}>{label}</span>
+                      <span className="text-right">{formatPercent(rollingRangeVolatility[rollingRangeVolatility.length - 1][key])}</span>
+                      <span className="text-right">{formatPercent(rangeVolatility[key])}</span>
+                    </div>
+                  ))}
+                  <p className="mt-2 text-xs text-gray-500">
+                    {rangeVolatility.observations} OHLC bars; range estimators use intraday highs and lows and need fewer observations than close-to-close for the same precision
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {volatilityCone.length > 0 && (
+          <div className="mb-6">
+            <Card className="professional-metric">
+              <CardHeader>
+                <CardTitle className="text-green-400 flex items-center gap-2">
+                  <Target className="h-5 w-5" />
+                  VOLATILITY CONE
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={volatilityConeChartData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#1a1a1a" />
+                      <XAxis dataKey="horizon" stroke="#64748b" fontSize={12} />
+                      <YAxis stroke="#64748b" fontSize={12} tickFormatter={(value) => `${value.toFixed(0)}%`} />
+                      <Tooltip 
+                        contentStyle={{ 
+                          backgroundColor: '#0a0e14', 
+                          border: '1px solid #1a1a1a',
+                          borderRadius: '8px',
+                          color: '#00ff41'
+                        }} 
+                        formatter={(value: number, name: string) => [`${value.toFixed(2)}%`, name]}
+                      />
+                      <Line type="monotone" dataKey="max" stroke="#ff0040" strokeWidth={1} dot={false} name="Max" />
+                      <Line type="monotone" dataKey="percentile75" stroke="#f59e0b" strokeWidth={1} strokeDasharray="5 5" dot={false} name="75th" />
+                      <Line type="monotone" dataKey="median" stroke="#64748b" strokeWidth={2} dot={false} name="Median" />
+                      <Line type="monotone" dataKey="percentile25" stroke="#3b82f6" strokeWidth={1} strokeDasharray="5 5" dot={false} name="25th" />
+                      <Line type="monotone" dataKey="min" stroke="#a855f7" strokeWidth={1} dot={false} name="Min" />
+                      <Line type="monotone" dataKey="current" stroke="#00ff41" strokeWidth={2} dot={{ r: 3 }} name="Current" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="mt-3 text-sm">
+                  <div className="grid grid-cols-8 gap-2 text-gray-500 border-b border-gray-800 pb-1 mb-1">
+                    <span>Horizon</span>
+                    <span className="text-right">Min</span>
+                    <span className="text-right">25th</span>
+                    <span className="text-right">Median</span>
+                    <span className="text-right">75th</span>
+                    <span className="text-right">Max</span>
+                    <span className="text-right">Current</span>
+                    <span className="text-right">Pctile</span>
+                  </div>
+                  {volatilityCone.map(point => {
+                    const richness = point.current > point.percentile75 ? 'text-red-400' : point.current < point.percentile25 ? 'text-green-400' : 'text-gray-300';
+                    return (
+                      <div key={point.horizon} className="grid grid-cols-8 gap-2 font-mono">
+                        <span>{point.horizon}D</span>
+                        <span className="text-right">{formatPercent(point.min)}</span>
+                        <span className="text-right">{formatPercent(point.percentile25)}</span>
+                        <span className="text-right">{formatPercent(point.median)}</span>
+                        <span className="text-right">{formatPercent(point.percentile75)}</span>
+                        <span className="text-right">{formatPercent(point.max)}</span>
+                        <span className={`text-right font-bold ${richness}`}>{formatPercent(point.current)}</span>
+                        <span className={`text-right ${richness}`}>{formatPercent(point.percentileRank, 0)}</span>
+                      </div>
+                    );
+                  })}
+                  <p className="mt-2 text-xs text-gray-500">
+                    Realised volatility over every overlapping window of each horizon; current values above the 75th percentile are rich, below the 25th cheap
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {changePointAnalysis && (
+          <div className="mb-6">
+            <Card className="professional-metric">
+              <CardHeader>
+                <CardTitle className="text-green-400 flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5" />
+                  STRUCTURAL BREAKS
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={changePointChartData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#1a1a1a" />
+                        <XAxis dataKey="date" stroke="#64748b" fontSize={12} minTickGap={40} />
+                        <YAxis stroke="#64748b" fontSize={12} tickFormatter={(value) => `${value.toFixed(0)}%`} />
+                        <Tooltip 
+                          contentStyle={{ 
+                            backgroundColor: '#0a0e14', 
+                            border: '1px solid #1a1a1a',
+                            borderRadius: '8px',
+                            color: '#00ff41'
+                          }} 
+                          formatter={(value: number, name: string) => [`${value.toFixed(2)}%`, name]}
+                        />
+                        <ReferenceLine y={0} stroke="#64748b" strokeDasharray="2 2" />
+                        <Line type="linear" dataKey="volatility" stroke="#ff0040" strokeWidth={2} dot={false} name="Segment Vol" />
+                        <Line type="linear" dataKey="mean" stroke="#3b82f6" strokeWidth={1} dot={false} name="Segment Mean" />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <div className="space-y-3 text-sm">
+                    <div>
+                      <div className="grid grid-cols-5 gap-2 text-gray-500 border-b border-gray-800 pb-1 mb-1">
+                        <span>From</span>
+                        <span>To</span>
+                        <span className="text-right">Days</span>
+                        <span className="text-right">Ann. Mean</span>
+                        <span className="text-right">Ann. Vol</span>
+                      </div>
+                      {changePointAnalysis.segments.map(segment => (
+                        <div key={segment.startDate} className="grid grid-cols-5 gap-2 font-mono">
+                          <span>{segment.startDate.slice(0, 10)}</span>
+                          <span>{segment.endDate.slice(0, 10)}</span>
+                          <span className="text-right">{segment.observations}</span>
+                          <span className={`text-right ${segment.mean >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatPercent(segment.mean, 1)}</span>
+                          <span className="text-right">{formatPercent(segment.volatility, 1)}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      {[
+                        { label: 'CUSUM (mean)', test: changePointAnalysis.cusumMean },
+                        { label: 'CUSUM² (variance)', test: changePointAnalysis.cusumVariance }
+                      ].map(({ label, test }) => (
+                        <div key={label}>
+                          <p className="text-gray-400">{label}</p>
+                          <p className={`font-mono font-bold ${test.significant ? 'text-red-400' : 'text-green-400'}`}>
+                            p = {formatNumber(test.pValue, 3)}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {test.significant ? `Break near ${test.breakDate.slice(0, 10)}` : 'No significant break'}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="p-3 bg-blue-500/10 rounded-lg border border-blue-500/20">
+                      {estimationStart ? (
+                        <div className="flex items-center justify-between gap-3">
+                          <p className="text-xs text-blue-400">Models are fitted on data since {estimationStart}.</p>
+                          <button
+                            onClick={() => runAnalysis({ ...params, estimationStart: undefined })}
+                            className="px-2 py-1 text-xs font-mono rounded border border-gray-700 text-gray-400 hover:border-gray-500"
+                          >
+                            USE FULL HISTORY
+                          </button>
+                        </div>
+                      ) : changePointAnalysis.lastBreakDate && changePointAnalysis.observationsSinceBreak >= MIN_ESTIMATION_BARS ? (
+                        <div className="flex items-center justify-between gap-3">
+                          <p className="text-xs text-blue-400">
+                            Last break on {changePointAnalysis.lastBreakDate.slice(0, 10)} ({changePointAnalysis.observationsSinceBreak} trading days ago).
+                            Older data may describe a different market; consider estimating on data since the break.
+                          </p>
+                          <button
+                            onClick={() => runAnalysis({ ...params, estimationStart: changePointAnalysis.lastBreakDate!.slice(0, 10) })}
+                            className="px-2 py-1 text-xs font-mono rounded border border-green-400 text-green-400 bg-green-400/10 whitespace-nowrap"
+                          >
+                            USE DATA SINCE LAST BREAK
+                          </button>
+                        </div>
+                      ) : (
+                        <p className="text-xs text-blue-400">
+                          {changePointAnalysis.lastBreakDate
+                            ? `Last break on ${changePointAnalysis.lastBreakDate.slice(0, 10)} leaves fewer than ${MIN_ESTIMATION_BARS} bars; keeping the full history.`
+                            : 'No structural break detected; the full history is a consistent estimation window.'}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {stressTests.length > 0 && (
+          <div className="mb-6">
+            <Card className="professional-metric">
+              <CardHeader>
+                <CardTitle className="text-green-400 flex items-center gap-2">
+                  <Shield className="h-5 w-5" />
+                  HISTORICAL STRESS TESTS
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-sm">
+                  <div className="grid grid-cols-7 gap-2 text-gray-500 border-b border-gray-800 pb-1 mb-1">
+                    <span className="col-span-2">Scenario</span>
+                    <span>Source</span>
+                    <span className="text-right">Peak → Trough</span>
+                    <span className="text-right">P&L (100 sh)</span>
+                    <span className="text-right">Worst Day</span>
+                    <span className="text-right">Recovery</span>
+                  </div>
+                  {stressTests.map(result => (
+                    <div key={result.scenario.id} className="grid grid-cols-7 gap-2 font-mono py-1 border-b border-gray-800/50">
+                      <div className="col-span-2">
+                        <p className="text-green-400">{result.scenario.name}</p>
+                        <p className="text-xs text-gray-500 font-sans">{result.peakDate} → {result.troughDate}</p>
+                      </div>
+                      <span className="text-gray-400">
+                        {stressSourceLabels[result.source]}
+                        {result.beta !== null && <span className="block text-xs text-gray-500">β {formatNumber(result.beta, 2)}</span>}
+                      </span>
+                      <span className="text-right text-red-400">{formatPercent(result.peakToTrough)}</span>
+                      <span className="text-right text-red-400">{formatCurrency(100 * currentPrice * result.peakToTrough)}</span>
+                      <span className="text-right">
+                        {formatPercent(result.worstDay.return)}
+                        <span className="block text-xs text-gray-500">{result.worstDay.date}</span>
+                      </span>
+                      <span className="text-right">
+                        {result.source === 'reference'
+                          ? 'N/A'
+                          : result.recoveryDays !== null
+                          ? `${result.recoveryDays}d`
+                          : 'Not recovered'}
+                        {result.recoveryDate && <span className="block text-xs text-gray-500">{result.recoveryDate}</span>}
+                      </span>
+                    </div>
+                  ))}
+                  <p className="mt-2 text-xs text-gray-500">
+                    Episodes are replayed on the symbol&apos;s own prices where its history covers them, otherwise on benchmark returns scaled by beta. Episodes older than every loaded series use published S&amp;P 500 moves scaled by beta.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {liquidity && varBreakdowns && (
+          <div className="mb-6">
+            <Card className="professional-metric">
+              <CardHeader>
+                <CardTitle className="text-green-400 flex items-center gap-2">
+                  <Database className="h-5 w-5" />
+                  LIQUIDITY RISK
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-sm space-y-4">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-400">POSITION</span>
+                    {LIQUIDITY_POSITION_SIZES.map(size => (
+                      <button
+                        key={size}
+                        onClick={() => setLiquidityShares(size)}
+                        className={`px-2 py-1 text-xs font-mono rounded border ${
+                          liquidityShares === size
+                            ? 'border-green-400 text-green-400 bg-green-400/10'
+                            : 'border-gray-700 text-gray-400 hover:border-gray-500'
+                        }`}
+                      >
+                        {formatLargeNumber(size)} SH
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                    <div>
+                      <p className="text-gray-400">ADV ({liquidity.analysis.window}d)</p>
+                      <p className="text-green-400 font-mono font-bold">{formatLargeNumber(Math.round(liquidity.analysis.averageDailyVolume))} sh</p>
+                      <p className="text-xs text-gray-500">${formatLargeNumber(Math.round(liquidity.analysis.averageDailyDollarVolume))}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Amihud</p>
+                      <p className="text-purple-400 font-mono font-bold">{liquidity.analysis.amihudIlliquidity.toExponential(2)}</p>
+                      <p className="text-xs text-gray-500">|return| per $1M traded</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Position</p>
+                      <p className="text-blue-400 font-mono font-bold">${formatLargeNumber(Math.round(liquidity.analysis.positionValue))}</p>
+                      <p className="text-xs text-gray-500">{formatPercent(liquidity.analysis.positionShares / liquidity.analysis.averageDailyVolume)} of ADV</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Days to Liquidate</p>
+                      <p className={`font-mono font-bold ${liquidity.analysis.daysToLiquidate > 1 ? 'text-yellow-400' : 'text-green-400'}`}>
+                        {formatNumber(liquidity.analysis.daysToLiquidate, 2)}
+                      </p>
+                      <p className="text-xs text-gray-500">At {formatPercent(liquidity.analysis.participationRate, 0)} of ADV per day</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Impact Cost</p>
+                      <p className="text-red-400 font-mono font-bold">{formatPercent(liquidity.analysis.impactCost, 3)}</p>
+                      <p className="text-xs text-gray-500">{formatCurrency(liquidity.analysis.impactCost * liquidity.analysis.positionValue)}</p>
+                    </div>
+                  </div>
+                  <div>
+                    <div className="grid grid-cols-5 gap-2 text-gray-500 border-b border-gray-800 pb-1 mb-1">
+                      <span>Confidence</span>
+                      <span className="text-right">VaR ({varMethodLabels[varMethod]})</span>
+                      <span className="text-right">+ Impact</span>
+                      <span className="text-right">LVaR</span>
+                      <span className="text-right">LVaR ($)</span>
+                    </div>
+                    {([['95%', 'var95'], ['99%', 'var99']] as const).map(([label, key]) => {
+                      const value = varBreakdowns[key][varMethodKeys[varMethod]];
+                      const adjusted = liquidity.liquidityAdjustedVaR[volatilityModel][varMethod][key];
+                      return (
+                        <div key={key} className="grid grid-cols-5 gap-2 font-mono">
+                          <span className="text-gray-400">{label}</span>
+                          <span className="text-right">{formatPercent(value)}</span>
+                          <span className="text-right text-gray-400">{formatPercent(liquidity.analysis.impactCost, 3)}</span>
+                          <span className="text-right text-red-400">{formatPercent(adjusted)}</span>
+                          <span className="text-right text-red-400">{formatCurrency(adjusted * liquidity.analysis.positionValue)}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Impact follows the square-root law: daily volatility × √(shares / ADV). Liquidity-adjusted VaR adds this expected liquidation cost to the one-day VaR, so it grows with position size while ordinary VaR does not.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {scenarioAnalysis && (
+          <div className="mb-6">
+            <Card className="professional-metric">
+              <CardHeader>
+                <CardTitle className="text-green-400 flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5" />
+                  SCENARIO ANALYSIS
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 text-sm">
+                  <div className="space-y-4">
+                    <ScenarioControls onRun={runScenario} onSave={saveScenario} />
+                    <div>
+                      <p className="text-gray-500 border-b border-gray-800 pb-1 mb-1">Saved Scenarios</p>
+                      {savedScenarios.length === 0 && <p className="text-xs text-gray-500">No saved scenarios</p>}
+                      {savedScenarios.map(scenario => (
+                        <div key={scenario.id} className="flex items-center justify-between gap-2 py-1 border-b border-gray-800/50">
+                          <div>
+                            <p className={scenario.id === activeScenario.id ? 'text-green-400' : 'text-gray-300'}>{scenario.name}</p>
+                            <p className="text-xs text-gray-500 font-mono">
+                              {formatPercent(scenario.benchmarkMove, 0)} · vol ×{formatNumber(scenario.volatilityMultiplier, 1)} · ρ {scenario.correlationChange >= 0 ? '+' : ''}{formatNumber(scenario.correlationChange, 2)} · {Math.round(scenario.rateShift * 10000)}bp · {scenario.horizonDays}d
+                            </p>
+                          </div>
+                          <div className="flex gap-1">
+                            <button
+                              onClick={() => setActiveScenario(scenario)}
+                              className={`px-2 py-1 text-xs font-mono rounded border ${
+                                scenario.id === activeScenario.id
+                                  ? 'border-green-400 text-green-400 bg-green-400/10'
+                                  : 'border-gray-700 text-gray-400 hover:border-gray-500'
+                              }`}
+                            >
+                              RUN
+                            </button>
+                            <button
+                              onClick={() => deleteScenario(scenario.id)}
+                              className="px-2 py-1 text-xs font-mono rounded border border-gray-700 text-gray-400 hover:border-red-400 hover:text-red-400"
+                            >
+                              DELETE
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="lg:col-span-2 space-y-4">
+                    {(() => {
+                      const { position: result, inputs, rate } = scenarioAnalysis;
+                      return (
+                        <>
+                          <p className="text-gray-400">
+                            <span className="text-green-400 font-semibold">{result.scenario.name}</span>
+                            <span className="ml-2 text-xs text-gray-500">100 shares @ {formatCurrency(currentPrice)}, revalued after {result.scenario.horizonDays} trading days</span>
+                          </p>
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <div>
+                              <p className="text-gray-400">Price Move</p>
+                              <p className={`font-mono font-bold ${result.priceMove >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatPercent(result.priceMove)}</p>
+                              <p className="text-xs text-gray-500">{formatCurrency(result.shockedPrice)}</p>
+                            </div>
+                            <div>
+                              <p className="text-gray-400">Position P&L</p>
+                              <p className={`font-mono font-bold ${result.totalPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatCurrency(result.totalPnL)}</p>
+                            </div>
+                            <div>
+                              <p className="text-gray-400">90% P&L Range</p>
+                              <p className="font-mono font-bold text-yellow-400">{formatCurrency(result.pnlRange[0])} / {formatCurrency(result.pnlRange[1])}</p>
+                              <p className="text-xs text-gray-500">±{formatPercent(result.idiosyncraticRange, 1)} idiosyncratic</p>
+                            </div>
+                            <div>
+                              <p className="text-gray-400">Beta</p>
+                              <p className="font-mono font-bold text-blue-400">{formatNumber(inputs.beta, 2)} → {formatNumber(result.beta, 2)}</p>
+                              <p className="text-xs text-gray-500">ρ {result.correlation === null ? 'N/A' : `${formatNumber(inputs.correlation ?? 0, 2)} → ${formatNumber(result.correlation, 2)}`}</p>
+                            </div>
+                            <div>
+                              <p className="text-gray-400">Vol Forecast</p>
+                              <p className="font-mono font-bold text-blue-400">{formatPercent(result.volatility, 1)} → {formatPercent(result.shockedVolatility, 1)}</p>
+                            </div>
+                            <div>
+                              <p className="text-gray-400">{volatilityModel} Response</p>
+                              <p className="font-mono font-bold text-purple-400">{formatPercent(result.garchResponse, 1)}</p>
+                              <p className="text-xs text-gray-500">Next-day vol after the move</p>
+                            </div>
+                            <div>
+                              <p className="text-gray-400">Rate</p>
+                              <p className="font-mono font-bold text-blue-400">
+                                {formatPercent(rate)} → {formatPercent(rate + result.scenario.rateShift)}
+                              </p>
+                            </div>
+                          </div>
+                        </>
+                      );
+                    })()}
+
+                    <div>
+                      <div className="grid grid-cols-5 gap-2 text-gray-500 border-b border-gray-800 pb-1 mb-1">
+                        <span>ATM 21d Contract</span>
+                        <span className="text-right">Base</span>
+                        <span className="text-right">Shocked</span>
+                        <span className="text-right">Vol</span>
+                        <span className="text-right">P&L / Contract</span>
+                      </div>
+                      {scenarioAnalysis.options.map(option => (
+                        <div key={option.leg.type} className="grid grid-cols-5 gap-2 font-mono">
+                          <span className="text-green-400">{option.leg.type.toUpperCase()} {formatCurrency(option.leg.strike)}</span>
+                          <span className="text-right">{formatCurrency(option.baseValue)}</span>
+                          <span className="text-right">{formatCurrency(option.shockedValue)}</span>
+                          <span className="text-right text-gray-400">{formatPercent(option.baseVolatility, 1)} → {formatPercent(option.shockedVolatility, 1)}</span>
+                          <span className={`text-right ${option.pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatCurrency(option.pnl)}</span>
+                        </div>
+                      ))}
+                    </div>
+
+                    <p className="text-xs text-gray-500">
+                      The benchmark move reaches the symbol through beta rescaled by the correlation change; the volatility multiplier scales the {volatilityModel} forecast over the horizon. Options are repriced with Black-Scholes at the shocked price, volatility, rate and remaining time to expiry. The range adds the 90% idiosyncratic move left unexplained by the benchmark.
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {riskMetrics && (
+          <div className="mb-6">
+            <Card className="professional-metric">
+              <CardHeader>
+                <CardTitle className="text-green-400 flex items-center gap-2">
+                  <Zap className="h-5 w-5" />
+                  PERFORMANCE RATIOS
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                  {[
+                    { label: 'Sharpe', value: riskMetrics.sharpeRatio },
+                    { label: 'Sortino', value: riskMetrics.sortinoRatio },
+                    { label: 'Omega', value: riskMetrics.omegaRatio },
+                    { label: 'Treynor', value: riskMetrics.treynorRatio },
+                    { label: 'Calmar', value: riskMetrics.calmarRatio },
+                    { label: 'Sterling', value: riskMetrics.sterlingRatio },
+                    { label: 'Gain/Pain', value: riskMetrics.gainPainRatio }
+                  ].map(ratio => (
+                    <div key={ratio.label}>
+                      <p className="text-gray-400">{ratio.label}</p>
+                      <p className={`font-mono font-bold ${ratio.value === null ? 'text-gray-500' : ratio.value > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {ratio.value === null ? 'N/A' : isFinite(ratio.value) ? formatNumber(ratio.value, 2) : '∞'}
+                      </p>
+                    </div>
+                  ))}
+                  <div>
+                    <p className="text-gray-400">Probabilistic SR</p>
+                    <p className={`font-mono font-bold ${riskMetrics.probabilisticSharpeRatio > 0.95 ? 'text-green-400' : 'text-yellow-400'}`}>
+                      {formatPercent(riskMetrics.probabilisticSharpeRatio, 1)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Deflated SR</p>
+                    <p className={`font-mono font-bold ${riskMetrics.deflatedSharpeRatio > 0.95 ? 'text-green-400' : 'text-yellow-400'}`}>
+                      {formatPercent(riskMetrics.deflatedSharpeRatio, 1)}
+                    </p>
+                    <p className="text-xs text-gray-500">{riskMetrics.sharpeTrials} trials</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Risk-free Rate</p>
+                    <p className="text-blue-400 font-mono font-bold">{formatPercent(riskMetrics.riskFreeRate)}</p>
+                  </div>
+                </div>
+                <p className="mt-3 text-xs text-gray-500">
+                  Ratios use returns in excess of the risk-free rate; PSR and DSR give the probability that the true Sharpe ratio
+                  is positive, and beats the best of {riskMetrics.sharpeTrials} unskilled trials, allowing for skew and fat tails.
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {riskMetrics?.benchmark && (
+          <div className="mb-6">
+            <Card className="professional-metric">
+              <CardHeader>
+                <CardTitle className="text-green-400 flex items-center gap-2">
+                  <Target className="h-5 w-5" />
+                  BENCHMARK REGRESSION vs {benchmarkSymbolFor(params.symbol)}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-400">Beta</p>
+                    <p className="text-purple-400 font-mono font-bold">{formatNumber(riskMetrics.benchmark.beta, 2)}</p>
+                    <p className="text-xs text-gray-500">± {formatNumber(riskMetrics.benchmark.betaStandardError, 3)} s.e.</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Alpha (ann.)</p>
+                    <p className={`font-mono font-bold ${riskMetrics.benchmark.alpha >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {formatPercent(riskMetrics.benchmark.alpha)}
+                    </p>
+                    <p className="text-xs text-gray-500">± {formatPercent(riskMetrics.benchmark.alphaStandardError)} s.e.</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">R² / Correlation</p>
+                    <p className="text-blue-400 font-mono font-bold">
+                      {formatNumber(riskMetrics.benchmark.rSquared, 2)} / {formatNumber(riskMetrics.benchmark.correlation, 2)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Tracking Error</p>
+                    <p className="text-yellow-400 font-mono font-bold">{formatPercent(riskMetrics.benchmark.trackingError)}</p>
+                    <p className="text-xs text-gray-500">IR {formatNumber(riskMetrics.benchmark.informationRatio, 2)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Up / Down Capture</p>
+                    <p className="text-cyan-400 font-mono font-bold">
+                      {formatPercent(riskMetrics.benchmark.upCapture, 0)} / {formatPercent(riskMetrics.benchmark.downCapture, 0)}
+                    </p>
+                  </div>
+                </div>
+                <p className="mt-3 text-xs text-gray-500">
+                  OLS on {riskMetrics.benchmark.observations} daily returns matched by date.
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
         {/* Advanced Quantitative Analysis */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
           <Card className="professional-metric">
             <CardHeader>
-              <CardTitle className="text-green-400">QUANTUM VOLATILITY MODEL</CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-green-400">QUANTUM VOLATILITY MODEL</CardTitle>
+                <div className="flex gap-1">
+                  {(['GARCH', 'GJR-GARCH', 'EGARCH'] as VolatilityModelType[]).map(model => (
+                    <button
+                      key={model}
+                      onClick={() => setVolatilityModel(model)}
+                      className={`px-2 py-1 text-xs font-mono rounded border ${
+                        volatilityModel === model
+                          ? 'border-green-400 text-green-400 bg-green-400/10'
+                          : 'border-gray-700 text-gray-400 hover:border-gray-500'
+                      }`}
+                    >
+                      {model}
+                    </button>
+                  ))}
+                </div>
+              </div>
             </CardHeader>
             <CardContent>
               <div className="h-80">
@@ -942,11 +2120,30 @@ export const ProfessionalRiskDashboard: React.FC = () => {
                     />
                     <Line 
                       type="monotone" 
-                      dataKey="volatility" 
+                      dataKey="garch" 
                       stroke="#00ff41" 
-                      strokeWidth={2}
+                      strokeWidth={volatilityModel === 'GARCH' ? 2 : 1}
+                      strokeDasharray={volatilityModel === 'GARCH' ? undefined : '4 4'}
                       dot={false}
-                      name="Quantum Vol %"
+                      name="GARCH Vol %"
+                    />
+                    <Line 
+                      type="monotone" 
+                      dataKey="gjr" 
+                      stroke="#3b82f6" 
+                      strokeWidth={volatilityModel === 'GJR-GARCH' ? 2 : 1}
+                      strokeDasharray={volatilityModel === 'GJR-GARCH' ? undefined : '4 4'}
+                      dot={false}
+                      name="GJR-GARCH Vol %"
+                    />
+                    <Line 
+                      type="monotone" 
+                      dataKey="egarch" 
+                      stroke="#a855f7" 
+                      strokeWidth={volatilityModel === 'EGARCH' ? 2 : 1}
+                      strokeDasharray={volatilityModel === 'EGARCH' ? undefined : '4 4'}
+                      dot={false}
+                      name="EGARCH Vol %"
                     />
                     <Line 
                       type="monotone" 
@@ -959,6 +2156,98 @@ export const ProfessionalRiskDashboard: React.FC = () => {
                   </LineChart>
                 </ResponsiveContainer>
               </div>
+              {garchModel && (
+                <div className="mt-4 grid grid-cols-3 gap-2 text-xs">
+                  <div>
+                    <span className="text-gray-400">ω:</span>
+                    <span className="text-green-400 font-mono ml-1">{garchModel.parameters.omega.toExponential(2)}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">α:</span>
+                    <span className="text-green-400 font-mono ml-1">{formatNumber(garchModel.parameters.alpha, 4)}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">β:</span>
+                    <span className="text-green-400 font-mono ml-1">{formatNumber(garchModel.parameters.beta, 4)}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">γ:</span>
+                    <span className="text-green-400 font-mono ml-1">{formatNumber(garchModel.parameters.gamma, 4)}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">Persistence:</span>
+                    <span className="text-blue-400 font-mono ml-1">{formatNumber(garchModel.parameters.persistence, 4)}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">Half-life:</span>
+                    <span className="text-blue-400 font-mono ml-1">{formatNumber(garchModel.parameters.halfLife, 1)}d</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">Long-run Vol:</span>
+                    <span className="text-blue-400 font-mono ml-1">{formatPercent(Math.sqrt(garchModel.parameters.longRunVariance * 252))}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">Log-L:</span>
+                    <span className="text-purple-400 font-mono ml-1">{formatNumber(garchModel.logLikelihood, 1)}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">AIC:</span>
+                    <span className="text-purple-400 font-mono ml-1">{formatNumber(garchModel.aic, 1)}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">Fit:</span>
+                    <span className={`font-mono ml-1 ${garchModel.converged ? 'text-green-400' : 'text-yellow-400'}`}>
+                      {garchModel.converged ? 'CONVERGED' : 'MAX ITER'}
+                    </span>
+                  </div>
+                </div>
+              )}
+              {volatilityTermStructure.length > 0 && (
+                <div className="mt-4">
+                  <p className="text-xs text-gray-400 mb-1">VOL TERM STRUCTURE (1-252D, ANNUALIZED %)</p>
+                  <div className="h-32">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={volatilityTermStructure}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#1a1a1a" />
+                        <XAxis dataKey="horizon" stroke="#64748b" fontSize={10} />
+                        <YAxis stroke="#64748b" fontSize={10} domain={['auto', 'auto']} tickFormatter={(value) => value.toFixed(1)} />
+                        <Tooltip 
+                          contentStyle={{ 
+                            backgroundColor: '#0a0e14', 
+                            border: '1px solid #1a1a1a',
+                            borderRadius: '8px',
+                            color: '#00ff41'
+                          }} 
+                          formatter={(value: number) => [`${value.toFixed(2)}%`, '']}
+                          labelFormatter={(label) => `${label}D`}
+                        />
+                        <Line type="monotone" dataKey="volatility" stroke="#00ff41" strokeWidth={2} dot={false} name="Forecast Vol" />
+                        <Line type="monotone" dataKey="longRun" stroke="#64748b" strokeWidth={1} strokeDasharray="4 4" dot={false} name="Long-run Vol" />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              )}
+              {volatilityComparison && (
+                <div className="mt-3 text-xs">
+                  <div className="grid grid-cols-4 gap-2 text-gray-500 border-b border-gray-800 pb-1 mb-1">
+                    <span>MODEL</span>
+                    <span className="text-right">LOG-L</span>
+                    <span className="text-right">AIC</span>
+                    <span className="text-right">BIC</span>
+                  </div>
+                  {volatilityComparison.models.map(m => (
+                    <div key={m.model} className="grid grid-cols-4 gap-2 font-mono">
+                      <span className={m.model === volatilityComparison.bestByAIC ? 'text-green-400' : 'text-gray-400'}>
+                        {m.model}{m.model === volatilityComparison.bestByAIC ? ' ★' : ''}
+                      </span>
+                      <span className="text-right text-gray-300">{formatNumber(m.logLikelihood, 1)}</span>
+                      <span className="text-right text-gray-300">{formatNumber(m.aic, 1)}</span>
+                      <span className="text-right text-gray-300">{formatNumber(m.bic, 1)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -1264,16 +2553,71 @@ export const ProfessionalRiskDashboard: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
+                {/* Series Character */}
+                {persistence && (
+                  <div className="p-4 bg-gray-800/40 rounded-lg border border-gray-700">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm font-semibold text-green-400">SERIES CHARACTER</span>
+                      <span className={`text-sm font-bold ${
+                        persistence.classification === 'trending' ? 'text-green-400' :
+                        persistence.classification === 'mean-reverting' ? 'text-blue-400' : 'text-yellow-400'
+                      }`}>
+                        {persistence.classification.toUpperCase()}
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 text-xs">
+                      <div>
+                        <span className="text-gray-400">Hurst R/S:</span>
+                        <span className="font-mono ml-1">{formatNumber(persistence.hurstRS, 2)}</span>
+                      </div>
+                      <div>
+                        <span className="text-gray-400">Hurst DFA:</span>
+                        <span className="font-mono ml-1">{formatNumber(persistence.hurstDFA, 2)}</span>
+                      </div>
+                      <div>
+                        <span className="text-gray-400">OU Half-life:</span>
+                        <span className="font-mono ml-1">
+                          {isFinite(persistence.ornsteinUhlenbeck.halfLife) ? `${formatNumber(persistence.ornsteinUhlenbeck.halfLife, 0)}d` : '∞'}
+                        </span>
+                      </div>
+                      {persistence.varianceRatios.map(result => (
+                        <div key={result.lag}>
+                          <span className="text-gray-400">VR({result.lag}):</span>
+                          <span className={`font-mono ml-1 ${result.pValue < 0.05 ? (result.ratio > 1 ? 'text-green-400' : 'text-blue-400') : ''}`}>
+                            {formatNumber(result.ratio, 2)}
+                          </span>
+                        </div>
+                      ))}
+                      <div>
+                        <span className="text-gray-400">ADF:</span>
+                        <span className={`font-mono ml-1 ${persistence.adf.stationary ? 'text-blue-400' : ''}`}>
+                          {formatNumber(persistence.adf.statistic, 2)}
+                        </span>
+                      </div>
+                      <div>
+                        <span className="text-gray-400">KPSS:</span>
+                        <span className={`font-mono ml-1 ${persistence.kpss.stationary ? 'text-blue-400' : ''}`}>
+                          {formatNumber(persistence.kpss.statistic, 2)}
+                        </span>
+                      </div>
+                    </div>
+                    <p className="mt-2 text-xs text-gray-500">
+                      {persistence.evidence.length > 0
+                        ? persistence.evidence.join(' · ')
+                        : 'No significant persistence or mean reversion; price behaves like a random walk'}
+                    </p>
+                  </div>
+                )}
+
                 {/* Trading Signal */}
                 <div className="p-4 bg-gradient-to-r from-green-500/10 to-blue-500/10 rounded-lg border border-green-500/20">
                   <div className="flex justify-between items-center mb-2">
                     <span className="text-sm font-semibold text-green-400">TRADING SIGNAL</span>
                     <span className={`text-lg font-bold ${
-                      trendAnalysis?.direction === 'bullish' ? 'text-green-400' : 
-                      trendAnalysis?.direction === 'bearish' ? 'text-red-400' : 'text-yellow-400'
+                      tradingSignal.side === 'long' ? 'text-green-400' : 
+                      tradingSignal.side === 'short' ? 'text-red-400' : 'text-yellow-400'
                     }`}>
-                      {trendAnalysis?.direction === 'bullish' ? 'STRONG BUY' : 
-                       trendAnalysis?.direction === 'bearish' ? 'STRONG SHORT' : 'HOLD'}
+                      {tradingSignal.label}
                     </span>
                   </div>
                   <div className="grid grid-cols-2 gap-4 text-sm">
@@ -1286,20 +2630,15 @@ export const ProfessionalRiskDashboard: React.FC = () => {
                     <div>
                       <span className="text-gray-400">Target Price:</span>
                       <span className="text-green-400 font-mono ml-2">
-                        {trendAnalysis?.direction === 'bullish' 
-                          ? `$${formatNumber(currentPrice * (1 + (trendAnalysis?.strength || 0.05) * 3), 2)}`  // BUY: target higher
-                          : trendAnalysis?.direction === 'bearish' 
-                          ? `$${formatNumber(currentPrice * (1 - (trendAnalysis?.strength || 0.05) * 3), 2)}`  // SHORT: target lower
-                          : 'No Target'  // HOLD: no specific target
-                        }
+                        {tradingSignal.target !== null ? `$${formatNumber(tradingSignal.target, 2)}` : 'No Target'}
                       </span>
                     </div>
                     <div>
                       <span className="text-gray-400">Stop Loss:</span>
                       <span className="text-red-400 font-mono ml-2">
-                        {trendAnalysis?.direction === 'bullish' 
+                        {tradingSignal.side === 'long' 
                           ? `$${formatNumber(currentPrice * (1 - (riskMetrics?.var95 || 0.05)), 2)}`  // BUY: stop lower
-                          : trendAnalysis?.direction === 'bearish' 
+                          : tradingSignal.side === 'short' 
                           ? `$${formatNumber(currentPrice * (1 + (riskMetrics?.var95 || 0.05)), 2)}`  // SHORT: stop higher
                           : 'No Stop'  // HOLD: no specific stop
                         }
@@ -1308,8 +2647,10 @@ export const ProfessionalRiskDashboard: React.FC = () => {
                     <div>
                       <span className="text-gray-400">Hold Period:</span>
                       <span className="text-blue-400 font-mono ml-2">
-                        {trendAnalysis?.direction === 'bullish' || trendAnalysis?.direction === 'bearish' 
-                          ? `${Math.round(15 + Math.random() * 20)} days`
+                        {tradingSignal.holdDays !== null
+                          ? `${tradingSignal.holdDays} days (half-life)`
+                          : tradingSignal.side !== 'flat'
+                          ? 'Until the trend reverses'
                           : 'Monitor for signals'
                         }
                       </span>
@@ -1348,13 +2689,21 @@ export const ProfessionalRiskDashboard: React.FC = () => {
                 <div className="mt-4 p-3 bg-green-500/10 rounded-lg border border-green-500/20">
                   <p className="text-xs text-green-400">
                     💡 VORTEX INSIGHT: {
-                      trendAnalysis?.direction === 'bullish' ? 'Strong bullish momentum detected. Buy signal with upside target and protective stop below.' : 
-                      trendAnalysis?.direction === 'bearish' ? 'Bearish reversal signal active. Short signal with downside target and protective stop above.' : 
-                      'Neutral market conditions. Hold position and monitor for signal changes.'
+                      persistence?.classification === 'mean-reverting' && tradingSignal.side !== 'flat'
+                        ? `Mean-reverting series (half-life ${formatNumber(persistence.ornsteinUhlenbeck.halfLife, 0)} days). Fading the ${formatPercent(Math.abs(currentPrice / persistence.ornsteinUhlenbeck.equilibriumPrice - 1))} deviation from the $${formatNumber(persistence.ornsteinUhlenbeck.equilibriumPrice, 2)} equilibrium.`
+                        : persistence?.classification === 'random-walk'
+                        ? 'No persistence or mean reversion detected, so trend signals carry no edge. Hold and monitor.'
+                        : persistence?.classification === 'mean-reverting'
+                        ? 'Returns mean-revert but the price level has no stable equilibrium to fade towards. Hold and monitor.'
+                        : trendAnalysis?.direction === 'bullish' ? 'Strong bullish momentum detected. Buy signal with upside target and protective stop below.' : 
+                        trendAnalysis?.direction === 'bearish' ? 'Bearish reversal signal active. Short signal with downside target and protective stop above.' : 
+                        'Neutral market conditions. Hold position and monitor for signal changes.'
                     } 
-                    {trendAnalysis?.direction === 'bullish' || trendAnalysis?.direction === 'bearish' 
-                      ? `Expected return: ${formatPercent((trendAnalysis?.strength || 0.05) * 3)} over ${Math.round(15 + Math.random() * 20)} days.`
-                      : 'Wait for clear directional signal before taking position.'
+                    {tradingSignal.side !== 'flat' && tradingSignal.holdDays === null
+                      ? ` Target move: ${formatPercent((trendAnalysis?.strength || 0.05) * 3)}; hold while the trend persists.`
+                      : tradingSignal.side === 'flat' && (!persistence || persistence.classification === 'trending')
+                      ? ' Wait for clear directional signal before taking position.'
+                      : ''
                     }
                   </p>
                 </div>
@@ -1364,41 +2713,124 @@ export const ProfessionalRiskDashboard: React.FC = () => {
 
           <Card className="professional-metric">
             <CardHeader>
-              <CardTitle className="text-green-400 flex items-center gap-2">
-                <Activity className="h-5 w-5" />
-                MARKET REGIME DETECTION
-              </CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-green-400 flex items-center gap-2">
+                  <Activity className="h-5 w-5" />
+                  MARKET REGIME DETECTION
+                </CardTitle>
+                <div className="flex gap-1">
+                  {regimeModels.map(model => (
+                    <button
+                      key={model.states.length}
+                      onClick={() => setRegimeStateCount(model.states.length)}
+                      className={`px-2 py-1 text-xs font-mono rounded border ${
+                        regimeModel?.states.length === model.states.length
+                          ? 'border-green-400 text-green-400 bg-green-400/10'
+                          : 'border-gray-700 text-gray-400 hover:border-gray-500'
+                      }`}
+                    >
+                      {model.states.length}-STATE
+                    </button>
+                  ))}
+                </div>
+              </div>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-400">Current Regime:</span>
-                  <span className="text-lg font-bold text-blue-400">
-                    {currentPrice > 500 ? 'BULL MARKET' : 'BEAR MARKET'}
-                  </span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-400">Regime Strength:</span>
-                  <span className="text-lg font-bold text-green-400 font-mono">
-                    {formatNumber(78 + Math.random() * 15, 1)}%
-                  </span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-400">Transition Probability:</span>
-                  <span className="text-lg font-bold text-yellow-400 font-mono">
-                    {formatPercent(0.12 + Math.random() * 0.08)}
-                  </span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-400">Volatility Regime:</span>
-                  <span className="text-lg font-bold text-red-400">
-                    {(riskMetrics?.volatility || 0) > 0.25 ? 'HIGH' : 'MODERATE'}
-                  </span>
-                </div>
-                <div className="mt-4 p-3 bg-blue-500/10 rounded-lg border border-blue-500/20">
-                  <p className="text-xs text-blue-400">🔮 AI FORECAST: Market regime shift probability increased by {formatNumber(12 + Math.random() * 8, 1)}% based on quantum indicators.</p>
+              {regimeModel ? (
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-400">Current Regime:</span>
+                    <span className="text-lg font-bold" style={{ color: regimeColors[regimeModel.states.length][regimeModel.currentState] }}>
+                      {regimeModel.states[regimeModel.currentState].label}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-400">Regime Probability:</span>
+                    <span className="text-lg font-bold text-green-400 font-mono">
+                      {formatPercent(regimeModel.currentProbabilities[regimeModel.currentState], 1)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-400">Next-Day Switch Probability:</span>
+                    <span className="text-lg font-bold text-yellow-400 font-mono">
+                      {formatPercent(1 - regimeModel.nextDayProbabilities[regimeModel.currentState])}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-400">Expected Duration:</span>
+                    <span className="text-lg font-bold text-blue-400 font-mono">
+                      {formatNumber(regimeModel.states[regimeModel.currentState].expectedDuration, 0)} days
+                    </span>
+                  </div>
+
+                  <div className="text-sm">
+                    <div className="grid gap-2 text-gray-500 border-b border-gray-800 pb-1 mb-1" style={{ gridTemplateColumns: `2fr repeat(${regimeModel.states.length + 3}, 1fr)` }}>
+                      <span>State</span>
+                      <span className="text-right">Ann. Mean</span>
+                      <span className="text-right">Ann. Vol</span>
+                      <span className="text-right">Duration</span>
+                      {regimeModel.states.map((_, j) => (
+                        <span key={j} className="text-right">→ S{j + 1}</span>
+                      ))}
+                    </div>
+                    {regimeModel.states.map((state, i) => (
+                      <div key={i} className="grid gap-2 font-mono" style={{ gridTemplateColumns: `2fr repeat(${regimeModel.states.length + 3}, 1fr)` }}>
+                        <span style={{ color: regimeColors[regimeModel.states.length][i] }}>S{i + 1} {state.label}</span>
+                        <span className="text-right">{formatPercent(state.mean, 1)}</span>
+                        <span className="text-right">{formatPercent(state.volatility, 1)}</span>
+                        <span className="text-right">{formatNumber(state.expectedDuration, 0)}d</span>
+                        {regimeModel.transitionMatrix[i].map((p, j) => (
+                          <span key={j} className={`text-right ${i === j ? 'text-green-400' : 'text-gray-400'}`}>{formatPercent(p, 1)}</span>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="h-48">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={regimeChartData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#1a1a1a" />
+                        <XAxis dataKey="date" stroke="#64748b" fontSize={12} minTickGap={40} />
+                        <YAxis yAxisId="price" stroke="#64748b" fontSize={12} domain={['auto', 'auto']} tickFormatter={(value) => `$${value.toFixed(0)}`} />
+                        <YAxis yAxisId="probability" hide domain={[0, 1]} />
+                        <Tooltip 
+                          contentStyle={{ 
+                            backgroundColor: '#0a0e14', 
+                            border: '1px solid #1a1a1a',
+                            borderRadius: '8px',
+                            color: '#00ff41'
+                          }} 
+                          formatter={(value: number, name: string) => [name === 'Close' ? formatCurrency(value) : formatPercent(value, 1), name]}
+                        />
+                        {regimeModel.states.map((state, j) => (
+                          <Area 
+                            key={j}
+                            yAxisId="probability"
+                            type="stepAfter" 
+                            dataKey={`regime${j}`} 
+                            stackId="regime"
+                            stroke="none"
+                            fill={regimeColors[regimeModel.states.length][j]} 
+                            fillOpacity={0.2} 
+                            isAnimationActive={false}
+                            name={`S${j + 1}`} 
+                          />
+                        ))}
+                        <Line yAxisId="price" type="monotone" dataKey="close" stroke="#e5e7eb" strokeWidth={1} dot={false} name="Close" />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+
+                  <div className="p-3 bg-blue-500/10 rounded-lg border border-blue-500/20">
+                    <p className="text-xs text-blue-400">
+                      Gaussian HMM fitted by Baum-Welch on daily log returns ({regimeModel.iterations} iterations{regimeModel.converged ? '' : ', not converged'}, BIC {formatNumber(regimeModel.bic, 1)}).
+                      Shading shows smoothed state probabilities; the current regime uses filtered probabilities only.
+                    </p>
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <p className="text-sm text-gray-500">Regime model will be fitted once market data is loaded.</p>
+              )}
             </CardContent>
           </Card>
         </div>
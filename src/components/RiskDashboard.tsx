@@ -2,27 +2,40 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
-import { AdvancedRiskEngine, MarketData, RiskMetrics, MonteCarloResult } from '@/lib/models/RiskModels';
+import { AdvancedRiskEngine, MarketData, RiskMetrics, MonteCarloResult, MonteCarloProcess, MonteCarloProcessComparison, MonteCarloSampling } from '@/lib/models/RiskModels';
 import { formatNumber, formatPercent, formatCurrency, getRiskColor } from '@/lib/utils';
-import { LineChart, Line, AreaChart, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { LineChart, Line, AreaChart, Area, BarChart, Bar, ComposedChart, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { TrendingDown, TrendingUp, AlertTriangle, Target, Activity, BarChart3, PieChart, Zap } from 'lucide-react';
 
 interface RiskDashboardProps {
   symbol: string;
   targetDecline: number;
   timeHorizon: number;
+  process?: MonteCarloProcess;
+  sampling?: MonteCarloSampling;
 }
 
+const processLabels: Record<MonteCarloProcess, string> = {
+  'gbm': 'GBM (Normal)',
+  'merton-jump': 'Merton Jump-Diffusion',
+  'student-t': 'Student-t Innovations',
+  'historical-bootstrap': 'Historical Bootstrap',
+  'block-bootstrap': 'Block Bootstrap'
+};
+
 export const RiskDashboard: React.FC<RiskDashboardProps> = ({ 
   symbol, 
   targetDecline, 
-  timeHorizon 
+  timeHorizon,
+  process = 'gbm',
+  sampling = 'sobol'
 }) => {
   const [marketData, setMarketData] = useState<MarketData[]>([]);
   const [loading, setLoading] = useState(true);
   const [riskEngine, setRiskEngine] = useState<AdvancedRiskEngine | null>(null);
   const [riskMetrics, setRiskMetrics] = useState<RiskMetrics | null>(null);
   const [monteCarloResults, setMonteCarloResults] = useState<MonteCarloResult | null>(null);
+  const [processComparison, setProcessComparison] = useState<MonteCarloProcessComparison | null>(null);
 
   // Simulated market data - in production, this would come from your data provider
   const generateSimulatedData = (): MarketData[] => {
@@ -76,14 +89,22 @@ export const RiskDashboard: React.FC<RiskDashboardProps> = ({
       setRiskMetrics(metrics);
       
       const currentPrice = data[data.length - 1].close;
-      const mcResults = engine.monteCarloSimulation(currentPrice, timeHorizon, 10000, targetDecline);
-      setMonteCarloResults(mcResults);
+      const volatilityForecast = engine.forecastVolatilityTermStructure(timeHorizon);
+      const comparison = engine.compareMonteCarloProcesses(currentPrice, timeHorizon, 10000, targetDecline, {
+        volatilityForecast,
+        sampling,
+        controlVariate: true
+      });
+      setProcessComparison(comparison);
+      
+      const selected = comparison.processes.find(p => p.process === process);
+      setMonteCarloResults(selected ? selected.result : comparison.processes[0].result);
       
       setLoading(false);
     };
     
     loadData();
-  }, [symbol, targetDecline, timeHorizon]);
+  }, [symbol, targetDecline, timeHorizon, process, sampling]);
 
   const volatilityData = useMemo(() => {
     if (!riskEngine || !marketData.length) return [];
@@ -119,6 +140,26 @@ export const RiskDashboard: React.FC<RiskDashboardProps> = ({
     }));
   }, [monteCarloResults]);
 
+  const fanChartData = useMemo(() => {
+    if (!monteCarloResults || monteCarloResults.samplePaths.length === 0) return [];
+    
+    const paths = monteCarloResults.samplePaths;
+    const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+    
+    return paths[0].map((_, day) => {
+      const prices = paths.map(path => path[day]).sort((a, b) => a - b);
+      return {
+        day,
+        band90: [percentile(prices, 0.05), percentile(prices, 0.95)],
+        band50: [percentile(prices, 0.25), percentile(prices, 0.75)],
+        median: percentile(prices, 0.5),
+        path1: paths[0][day],
+        path2: paths[Math.min(1, paths.length - 1)][day],
+        path3: paths[Math.min(2, paths.length - 1)][day]
+      };
+    });
+  }, [monteCarloResults]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-dark-900 via-dark-800 to-dark-950 p-6">
@@ -142,6 +183,8 @@ export const RiskDashboard: React.FC<RiskDashboardProps> = ({
   const targetPrice = currentPrice * (1 - targetDecline);
   const declineNeeded = (currentPrice - targetPrice) / currentPrice;
   const probabilityOfDecline = monteCarloResults?.probabilities[0] || 0;
+  const declineStandardError = monteCarloResults?.probabilityStandardErrors[0] || 0;
+  const pathStatistics = monteCarloResults?.pathStatistics;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-dark-900 via-dark-800 to-dark-950 p-6">
@@ -189,6 +232,7 @@ export const RiskDashboard: React.FC<RiskDashboardProps> = ({
                 <p className={`text-2xl font-bold ${probabilityOfDecline > 0.4 ? 'text-red-400' : probabilityOfDecline > 0.2 ? 'text-yellow-400' : 'text-green-400'}`}>
                   {formatPercent(probabilityOfDecline)}
                 </p>
+                <p className="text-xs text-dark-400">± {formatPercent(declineStandardError)} s.e.</p>
               </div>
               <div className="p-3 bg-danger-500/10 rounded-full">
                 <TrendingDown className="h-6 w-6 text-danger-500" />
@@ -292,6 +336,31 @@ export const RiskDashboard: React.FC<RiskDashboardProps> = ({
                       {formatCurrency(monteCarloResults?.worstCase || 0)}
                     </p>
                   </div>
+                  <div>
+                    <p className="text-sm text-dark-400">Touch Probability</p>
+                    <p className="text-lg font-semibold text-danger-500">
+                      {formatPercent(pathStatistics?.hitProbability || 0)}
+                    </p>
+                    <p className="text-xs text-dark-400">± {formatPercent(pathStatistics?.hitProbabilityStandardError || 0)} s.e.</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-dark-400">Expected Time to Hit</p>
+                    <p className="text-lg font-semibold text-warning-500">
+                      {pathStatistics?.expectedTimeToHit != null ? `${formatNumber(pathStatistics.expectedTimeToHit, 1)} days` : 'N/A'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-dark-400">Median Max Drawdown</p>
+                    <p className="text-lg font-semibold text-warning-500">
+                      {formatPercent(pathStatistics?.maxDrawdownMedian || 0)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-dark-400">95th Pct Max Drawdown</p>
+                    <p className="text-lg font-semibold text-danger-500">
+                      {formatPercent(pathStatistics?.maxDrawdown95 || 0)}
+                    </p>
+                  </div>
                   <div>
                     <p className="text-sm text-dark-400">95% CI Range</p>
                     <p className="text-lg font-semibold text-warning-500">
@@ -385,6 +454,77 @@ export const RiskDashboard: React.FC<RiskDashboardProps> = ({
           </Card>
         </div>
 
+        {/* Price Path Fan Chart */}
+        {fanChartData.length > 0 && (
+          <Card variant="glass-strong" className="p-6 mb-8">
+            <CardHeader>
+              <CardTitle>Simulated Price Paths</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={fanChartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="day" stroke="#9ca3af" />
+                    <YAxis stroke="#9ca3af" domain={['auto', 'auto']} tickFormatter={(value) => formatCurrency(value, 0)} />
+                    <Tooltip 
+                      contentStyle={{ 
+                        backgroundColor: '#1f2937', 
+                        border: '1px solid #374151',
+                        borderRadius: '8px'
+                      }} 
+                    />
+                    <Area type="monotone" dataKey="band90" stroke="none" fill="#38bdf8" fillOpacity={0.15} name="5-95%" />
+                    <Area type="monotone" dataKey="band50" stroke="none" fill="#38bdf8" fillOpacity={0.3} name="25-75%" />
+                    <Line type="monotone" dataKey="median" stroke="#38bdf8" strokeWidth={2} dot={false} name="Median" />
+                    <Line type="monotone" dataKey="path1" stroke="#9ca3af" strokeWidth={1} dot={false} opacity={0.5} name="Sample Path" />
+                    <Line type="monotone" dataKey="path2" stroke="#9ca3af" strokeWidth={1} dot={false} opacity={0.5} name="Sample Path" />
+                    <Line type="monotone" dataKey="path3" stroke="#9ca3af" strokeWidth={1} dot={false} opacity={0.5} name="Sample Path" />
+                    <ReferenceLine 
+                      y={targetPrice} 
+                      stroke="#ef4444" 
+                      strokeDasharray="5 5"
+                      label="Target"
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Fat-Tail Model Comparison */}
+        {processComparison && (
+          <Card variant="glass-strong" className="p-6 mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingDown className="h-5 w-5" />
+                Decline Probability by Price Process
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
+                {processComparison.processes.map(p => (
+                  <div key={p.process} className={`text-center ${p.process === process ? 'text-white' : 'text-dark-400'}`}>
+                    <p className="text-sm mb-1">{processLabels[p.process]}</p>
+                    <p className={`text-2xl font-bold ${p.declineProbability > 0.4 ? 'text-red-400' : p.declineProbability > 0.2 ? 'text-yellow-400' : 'text-green-400'}`}>
+                      {formatPercent(p.declineProbability)}
+                    </p>
+                    <p className="text-xs text-dark-400">± {formatPercent(p.result.probabilityStandardErrors[0])} s.e.</p>
+                    <p className="text-xs text-dark-400 mt-1">
+                      {p.process === 'gbm' ? 'Baseline' : `${p.changeFromGBM >= 0 ? '+' : ''}${formatPercent(p.changeFromGBM)} vs GBM`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-dark-400 mt-4 text-center">
+                Seed {processComparison.seed} shared across processes • {processComparison.processes[0].result.varianceReduction.sampling} sampling
+                with GBM control variate (bootstraps resample pseudo-randomly)
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Risk Assessment Summary */}
         <Card variant="glass-strong" className="p-6">
           <CardHeader>
@@ -6,6 +6,8 @@ import { cn } from '@/lib/utils';
 
 const analysisSchema = z.object({
   symbol: z.string().min(1, 'Symbol is required').max(10, 'Symbol too long'),
+  seed: z.string().regex(/^\d{0,10}$/, 'Seed must be a whole number').optional(),
+  riskFreeRate: z.string().regex(/^(\d{1,2}(\.\d{0,3})?)?$/, 'Rate must be a percentage, e.g. 4.5').optional(),
 });
 
 type AnalysisForm = z.infer<typeof analysisSchema>;
@@ -69,11 +71,53 @@ export const Controls: React.FC<ControlsProps> = ({
           )}
         </div>
 
+        {/* Seed and Risk-free Rate Inputs */}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">
+              RANDOM SEED
+            </label>
+            <input
+              {...register('seed')}
+              type="text"
+              inputMode="numeric"
+              placeholder="auto"
+              className={cn(
+                'w-full px-3 py-2 bg-black border rounded font-mono text-green-400',
+                'focus:outline-none focus:ring-2 focus:ring-green-400/50',
+                errors.seed ? 'border-red-500' : 'border-gray-600'
+              )}
+            />
+            {errors.seed && (
+              <p className="text-red-400 text-xs mt-1">{errors.seed.message}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">
+              RISK-FREE RATE (%)
+            </label>
+            <input
+              {...register('riskFreeRate')}
+              type="text"
+              inputMode="decimal"
+              placeholder="2.0"
+              className={cn(
+                'w-full px-3 py-2 bg-black border rounded font-mono text-green-400',
+                'focus:outline-none focus:ring-2 focus:ring-green-400/50',
+                errors.riskFreeRate ? 'border-red-500' : 'border-gray-600'
+              )}
+            />
+            {errors.riskFreeRate && (
+              <p className="text-red-400 text-xs mt-1">{errors.riskFreeRate.message}</p>
+            )}
+          </div>
+        </div>
+
         {/* Submit Button */}
-        <div className="flex justify-center mt-6">
+        <div className="flex justify-center mt-4">
+          {/* Left enabled while loading: resubmitting cancels the running analysis */}
           <button
             type="submit"
-            disabled={loading}
             className={cn(
               'px-8 py-3 bg-green-600 text-black font-semibold rounded-lg',
               'hover:bg-green-500 focus:outline-none focus:ring-2 focus:ring-green-400/50',
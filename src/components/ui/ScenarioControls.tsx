@@ -0,0 +1,149 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { cn } from '@/lib/utils';
+import { ShockScenario } from '@/lib/models/StressTestModels';
+
+const scenarioSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(40, 'Name too long'),
+  benchmarkMove: z.string()
+    .regex(/^-?\d{1,2}(\.\d{0,2})?$/, 'Move must be a percentage, e.g. -15')
+    .refine(value => parseFloat(value) > -100, 'Move must be above -100%'),
+  volatilityMultiplier: z.string()
+    .regex(/^\d{1,2}(\.\d{0,2})?$/, 'Multiplier must be a number, e.g. 2')
+    .refine(value => parseFloat(value) > 0, 'Multiplier must be positive'),
+  correlationChange: z.string()
+    .regex(/^-?\d(\.\d{0,2})?$/, 'Change must be a number, e.g. 0.2')
+    .refine(value => Math.abs(parseFloat(value)) <= 2, 'Change must be between -2 and 2'),
+  rateShift: z.string().regex(/^-?\d{1,4}$/, 'Shift must be whole basis points, e.g. 100'),
+  horizonDays: z.string()
+    .regex(/^\d{1,3}$/, 'Horizon must be whole trading days')
+    .refine(value => parseInt(value, 10) >= 1 && parseInt(value, 10) <= 252, 'Horizon must be 1 to 252 days'),
+});
+
+type ScenarioForm = z.infer<typeof scenarioSchema>;
+
+export type ScenarioDefinition = Omit<ShockScenario, 'id'>;
+
+interface ScenarioControlsProps {
+  onRun: (scenario: ScenarioDefinition) => void;
+  onSave: (scenario: ScenarioDefinition) => void;
+  disabled?: boolean;
+}
+
+const fields: Array<{ key: Exclude<keyof ScenarioForm, 'name'>; label: string; placeholder: string; inputMode: 'decimal' | 'numeric' }> = [
+  { key: 'benchmarkMove', label: 'BENCHMARK MOVE (%)', placeholder: '-15', inputMode: 'decimal' },
+  { key: 'volatilityMultiplier', label: 'VOL MULTIPLIER (×)', placeholder: '2', inputMode: 'decimal' },
+  { key: 'correlationChange', label: 'CORRELATION CHANGE', placeholder: '0.2', inputMode: 'decimal' },
+  { key: 'rateShift', label: 'RATE SHIFT (BP)', placeholder: '0', inputMode: 'numeric' },
+  { key: 'horizonDays', label: 'HORIZON (DAYS)', placeholder: '5', inputMode: 'numeric' }
+];
+
+const toScenario = (values: ScenarioForm): ScenarioDefinition => ({
+  name: values.name.trim(),
+  benchmarkMove: parseFloat(values.benchmarkMove) / 100,
+  volatilityMultiplier: parseFloat(values.volatilityMultiplier),
+  correlationChange: parseFloat(values.correlationChange),
+  rateShift: parseInt(values.rateShift, 10) / 10000,
+  horizonDays: parseInt(values.horizonDays, 10)
+});
+
+export const ScenarioControls: React.FC<ScenarioControlsProps> = ({
+  onRun,
+  onSave,
+  disabled = false
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<ScenarioForm>({
+    resolver: zodResolver(scenarioSchema),
+    defaultValues: {
+      name: 'Benchmark -15%, vol x2',
+      benchmarkMove: '-15',
+      volatilityMultiplier: '2',
+      correlationChange: '0.2',
+      rateShift: '0',
+      horizonDays: '5'
+    }
+  });
+
+  return (
+    <form onSubmit={handleSubmit(values => onRun(toScenario(values)))} className="space-y-3">
+      {/* Scenario Name */}
+      <div>
+        <label className="block text-xs font-medium text-gray-300 mb-1">
+          SCENARIO NAME
+        </label>
+        <input
+          {...register('name')}
+          type="text"
+          className={cn(
+            'w-full px-3 py-2 bg-black border rounded font-mono text-green-400',
+            'focus:outline-none focus:ring-2 focus:ring-green-400/50',
+            errors.name ? 'border-red-500' : 'border-gray-600'
+          )}
+        />
+        {errors.name && (
+          <p className="text-red-400 text-xs mt-1">{errors.name.message}</p>
+        )}
+      </div>
+
+      {/* Shock Inputs */}
+      <div className="grid grid-cols-2 gap-3">
+        {fields.map(field => (
+          <div key={field.key}>
+            <label className="block text-xs font-medium text-gray-300 mb-1">
+              {field.label}
+            </label>
+            <input
+              {...register(field.key)}
+              type="text"
+              inputMode={field.inputMode}
+              placeholder={field.placeholder}
+              className={cn(
+                'w-full px-3 py-2 bg-black border rounded font-mono text-green-400',
+                'focus:outline-none focus:ring-2 focus:ring-green-400/50',
+                errors[field.key] ? 'border-red-500' : 'border-gray-600'
+              )}
+            />
+            {errors[field.key] && (
+              <p className="text-red-400 text-xs mt-1">{errors[field.key]?.message}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Run and Save Buttons */}
+      <div className="flex gap-3 pt-1">
+        <button
+          type="submit"
+          disabled={disabled}
+          className={cn(
+            'px-6 py-2 bg-green-600 text-black font-semibold rounded-lg',
+            'hover:bg-green-500 focus:outline-none focus:ring-2 focus:ring-green-400/50',
+            'disabled:opacity-50 disabled:cursor-not-allowed',
+            'transition-all duration-200'
+          )}
+        >
+          RUN SCENARIO
+        </button>
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={handleSubmit(values => onSave(toScenario(values)))}
+          className={cn(
+            'px-6 py-2 border border-green-400 text-green-400 font-semibold rounded-lg',
+            'hover:bg-green-400/10 focus:outline-none focus:ring-2 focus:ring-green-400/50',
+            'disabled:opacity-50 disabled:cursor-not-allowed',
+            'transition-all duration-200'
+          )}
+        >
+          SAVE
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -1,4 +1,6 @@
 import { MarketData } from './RiskModels';
+import { SeededRandom } from './Random';
+import { RiskFreeRate, RiskFreeRateInput } from './RiskFreeRate';
 
 export interface OptionsData {
   symbol: string;
@@ -20,6 +22,7 @@ export interface VolatilitySurface {
   strikes: number[];
   expirations: string[];
   impliedVolatilities: number[][];
+  seed: number; // PRNG seed behind the surface noise
 }
 
 export interface GreeksProfile {
@@ -30,13 +33,14 @@ export interface GreeksProfile {
   rho: number;
 }
 
+export const DEFAULT_OPTIONS_RISK_FREE_RATE = 0.05;
+
 export class OptionsAnalyzer {
-  private riskFreeRate: number = 0.05; // 5% risk-free rate
+  private riskFreeRate: number; // Annual rate used for discounting (latest value of a dated series)
   
-  constructor(riskFreeRate?: number) {
-    if (riskFreeRate) {
-      this.riskFreeRate = riskFreeRate;
-    }
+  // Without a rate, options keep discounting at their historical 5% rather than the risk engine's default
+  constructor(riskFreeRate: RiskFreeRateInput | RiskFreeRate = DEFAULT_OPTIONS_RISK_FREE_RATE) {
+    this.riskFreeRate = RiskFreeRate.from(riskFreeRate).annualRate();
   }
 
   // Black-Scholes formula for European options
@@ -203,8 +207,10 @@ export class OptionsAnalyzer {
   generateVolatilitySurface(
     currentPrice: number,
     strikes: number[],
-    expirations: string[]
+    expirations: string[],
+    seed?: number
   ): VolatilitySurface {
+    const random = new SeededRandom(seed);
     const impliedVolatilities: number[][] = [];
     
     expirations.forEach((expiration, expIndex) => {
@@ -223,7 +229,7 @@ export class OptionsAnalyzer {
         const termEffect = 0.02 * Math.sqrt(timeToExpiry);
         
         // Add some randomness
-        const randomEffect = (Math.random() - 0.5) * 0.02;
+        const randomEffect = (random.next() - 0.5) * 0.02;
         
         const impliedVol = baseVol + smileEffect + termEffect + randomEffect;
         volRow.push(Math.max(0.05, impliedVol)); // Minimum 5% volatility
@@ -235,7 +241,8 @@ export class OptionsAnalyzer {
     return {
       strikes,
       expirations,
-      impliedVolatilities
+      impliedVolatilities,
+      seed: random.seed
     };
   }
 
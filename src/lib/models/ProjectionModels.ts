@@ -0,0 +1,229 @@
+import { MarketData, VolatilityForecastPoint } from './RiskModels';
+import { SeededRandom } from './Random';
+
+export interface TrendAnalysis {
+  direction: 'bullish' | 'bearish' | 'neutral';
+  strength: number;
+  confidence: number;
+  avgReturn: number;
+}
+
+export interface VolumeProfileLevel {
+  priceLevel: number;
+  volume: number;
+  accumulationZone: boolean;
+  supportResistance: 'support' | 'resistance' | 'neutral';
+}
+
+export interface AccumulationZone {
+  priceLevel: number;
+  strength: number;
+  volume: number;
+  type: 'accumulation' | 'distribution';
+}
+
+export interface PriceProjection {
+  timeframe: string;
+  bullish: number;
+  bearish: number;
+  neutral: number;
+  probability: {
+    up: number;
+    down: number;
+    neutral: number;
+  };
+}
+
+// Unified trend analysis function used by both neural network and alpha generation
+export function calculateUnifiedTrend(historicalData: MarketData[]): TrendAnalysis | null {
+  if (historicalData.length < 10) return null;
+  
+  // Calculate recent returns (last 10 days)
+  const recentData = historicalData.slice(-10);
+  const recentReturns = recentData.slice(1).map((item, i) => 
+    (item.close - recentData[i].close) / recentData[i].close
+  );
+  
+  // Calculate medium-term returns (last 20 days)
+  const mediumData = historicalData.slice(-20);
+  const mediumReturns = mediumData.slice(1).map((item, i) => 
+    (item.close - mediumData[i].close) / mediumData[i].close
+  );
+  
+  const avgRecentReturn = recentReturns.reduce((sum, r) => sum + r, 0) / recentReturns.length;
+  const avgMediumReturn = mediumReturns.reduce((sum, r) => sum + r, 0) / mediumReturns.length;
+  
+  // Calculate trend strength (combination of recent and medium-term)
+  const trendStrength = (avgRecentReturn * 0.7) + (avgMediumReturn * 0.3);
+  
+  // Calculate confidence based on consistency of returns
+  const recentStdDev = Math.sqrt(recentReturns.reduce((sum, r) => sum + Math.pow(r - avgRecentReturn, 2), 0) / recentReturns.length);
+  const confidence = Math.max(0, Math.min(1, 1 - (recentStdDev / Math.abs(avgRecentReturn || 0.01))));
+  
+  // Determine direction based on trend strength
+  let direction: 'bullish' | 'bearish' | 'neutral';
+  if (trendStrength > 0.003) direction = 'bullish'; // 0.3% threshold
+  else if (trendStrength < -0.003) direction = 'bearish';
+  else direction = 'neutral';
+  
+  return {
+    direction,
+    strength: Math.abs(trendStrength),
+    confidence,
+    avgReturn: avgRecentReturn
+  };
+}
+
+// Volume Profile Analysis - detects accumulation/distribution zones
+export function calculateVolumeProfile(historicalData: MarketData[]): { profile: VolumeProfileLevel[]; zones: AccumulationZone[] } {
+  if (historicalData.length < 30) return { profile: [], zones: [] };
+  
+  // Create price bins for volume profiling
+  const prices = historicalData.map(d => d.close);
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+  const binSize = (maxPrice - minPrice) / 20; // 20 price levels
+  
+  const volumeByPrice: { [key: number]: number } = {};
+  const accumulationData: { [key: number]: { volume: number; bullishVolume: number; bearishVolume: number } } = {};
+  
+  // Calculate volume at each price level
+  historicalData.forEach(candle => {
+    const priceBin = Math.floor((candle.close - minPrice) / binSize) * binSize + minPrice;
+    const volume = candle.volume || 0;
+    
+    volumeByPrice[priceBin] = (volumeByPrice[priceBin] || 0) + volume;
+    
+    // Determine if candle is bullish or bearish
+    const isBullish = candle.close > candle.open;
+    if (!accumulationData[priceBin]) {
+      accumulationData[priceBin] = { volume: 0, bullishVolume: 0, bearishVolume: 0 };
+    }
+    
+    accumulationData[priceBin].volume += volume;
+    if (isBullish) {
+      accumulationData[priceBin].bullishVolume += volume;
+    } else {
+      accumulationData[priceBin].bearishVolume += volume;
+    }
+  });
+  
+  // Calculate average volume for threshold
+  const avgVolume = Object.values(volumeByPrice).reduce((sum, vol) => sum + vol, 0) / Object.keys(volumeByPrice).length;
+  
+  // Create volume profile
+  const profile = Object.entries(volumeByPrice).map(([price, volume]) => {
+    const priceLevel = parseFloat(price);
+    const accData = accumulationData[priceLevel];
+    const bullishRatio = accData ? accData.bullishVolume / accData.volume : 0.5;
+    
+    return {
+      priceLevel,
+      volume,
+      accumulationZone: volume > avgVolume * 1.5, // High volume areas
+      supportResistance: volume > avgVolume * 2 ? 
+        (bullishRatio > 0.6 ? 'support' : bullishRatio < 0.4 ? 'resistance' : 'neutral') : 'neutral' as 'support' | 'resistance' | 'neutral'
+    };
+  }).sort((a, b) => a.priceLevel - b.priceLevel);
+  
+  // Detect accumulation/distribution zones
+  const zones = Object.entries(accumulationData)
+    .filter(([_, data]) => data.volume > avgVolume * 1.3)
+    .map(([price, data]) => {
+      const priceLevel = parseFloat(price);
+      const bullishRatio = data.bullishVolume / data.volume;
+      const strength = data.volume / avgVolume;
+      
+      return {
+        priceLevel,
+        strength,
+        volume: data.volume,
+        type: bullishRatio > 0.65 ? 'accumulation' as const : 'distribution' as const
+      };
+    })
+    .sort((a, b) => b.strength - a.strength) // Sort by strength
+    .slice(0, 5); // Top 5 zones
+  
+  return { profile, zones };
+}
+
+// Advanced Prophet-inspired projection algorithm with realistic short-term constraints
+export function generateAdvancedPriceProjections(
+  currentPrice: number,
+  historicalData: MarketData[],
+  termStructure: VolatilityForecastPoint[],
+  seed: number
+): PriceProjection[] {
+  const random = new SeededRandom(seed);
+  const timeframes = [
+    { days: 1, label: '1 Day' },
+    { days: 7, label: '7 Days' },
+    { days: 30, label: '30 Days' },
+    { days: 45, label: '45 Days' },
+    { days: 90, label: '90 Days' }
+  ];
+
+  // Calculate trend and seasonality components (Prophet-style)
+  const recentData = historicalData.slice(-60); // Last 60 days
+  const returns = recentData.slice(1).map((item, i) => 
+    (item.close - recentData[i].close) / recentData[i].close
+  );
+  
+  const trendStrength = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const momentum = returns.slice(-5).reduce((sum, r) => sum + r, 0) / 5; // Very recent momentum
+  
+  return timeframes.map(tf => {
+    // Horizon volatility from the GARCH term structure (captures the current vol regime)
+    const horizonForecast = termStructure[Math.min(tf.days, termStructure.length) - 1];
+    const adjustedVolatility = Math.sqrt(horizonForecast.cumulativeVariance);
+    
+    // Short-term constraints to prevent unrealistic movements
+    const maxDailyMove = tf.days === 1 ? 0.03 : tf.days <= 7 ? 0.05 : 0.15; // 3% max for 1-day, 5% for 7-day, 15% for longer
+    const constrainedVolatility = Math.min(adjustedVolatility, maxDailyMove);
+    
+    // Prophet-style trend decomposition with time-appropriate scaling
+    const seasonalComponent = Math.sin((tf.days / 365) * 2 * Math.PI) * 0.005; // Reduced seasonal impact
+    const trendComponent = trendStrength * (tf.days / 252) * 0.7; // Reduced trend impact
+    const momentumComponent = momentum * Math.log(tf.days + 1) * 0.3; // Reduced momentum impact
+    
+    // Realistic drift calculation
+    const drift = trendComponent + momentumComponent + seasonalComponent;
+    
+    // Markov Chain Monte Carlo simulation with realistic constraints
+    const mcmcIterations = 1000;
+    let bullishOutcomes = 0;
+    let bearishOutcomes = 0;
+    let neutralOutcomes = 0;
+    
+    for (let i = 0; i < mcmcIterations; i++) {
+      const randomWalk = (random.next() - 0.5) * 2 * constrainedVolatility;
+      const projectedReturn = drift + randomWalk;
+      
+      // Realistic thresholds based on timeframe
+      const bullishThreshold = tf.days === 1 ? 0.005 : tf.days <= 7 ? 0.01 : 0.02;
+      const bearishThreshold = tf.days === 1 ? -0.005 : tf.days <= 7 ? -0.01 : -0.02;
+      
+      if (projectedReturn > bullishThreshold) bullishOutcomes++;
+      else if (projectedReturn < bearishThreshold) bearishOutcomes++;
+      else neutralOutcomes++;
+    }
+    
+    // Realistic confidence intervals (not 95% which is too extreme for short-term)
+    const confidenceLevel = tf.days === 1 ? 0.5 : tf.days <= 7 ? 0.8 : 1.2;
+    const bullishMove = Math.min(drift + constrainedVolatility * confidenceLevel, maxDailyMove);
+    const bearishMove = Math.max(drift - constrainedVolatility * confidenceLevel, -maxDailyMove);
+    const neutralMove = drift * 0.5; // Conservative neutral estimate
+    
+    return {
+      timeframe: tf.label,
+      bullish: currentPrice * (1 + bullishMove),
+      bearish: currentPrice * (1 + bearishMove),
+      neutral: currentPrice * (1 + neutralMove),
+      probability: {
+        up: bullishOutcomes / mcmcIterations,
+        down: bearishOutcomes / mcmcIterations,
+        neutral: neutralOutcomes / mcmcIterations
+      }
+    };
+  });
+}
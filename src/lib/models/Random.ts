@@ -0,0 +1,192 @@
+// Seedable pseudo-random number generator (xoshiro128**) so simulations can be reproduced
+export class SeededRandom {
+  readonly seed: number;
+  private state: Uint32Array;
+  private spareNormal: number | null = null;
+
+  constructor(seed: number = SeededRandom.generateSeed()) {
+    this.seed = seed >>> 0;
+    this.state = new Uint32Array(4);
+
+    // Expand the 32-bit seed into the 128-bit state with splitmix32
+    let x = this.seed;
+    for (let i = 0; i < 4; i++) {
+      x = (x + 0x9e3779b9) >>> 0;
+      let z = x;
+      z = Math.imul(z ^ (z >>> 16), 0x85ebca6b) >>> 0;
+      z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35) >>> 0;
+      this.state[i] = (z ^ (z >>> 16)) >>> 0;
+    }
+  }
+
+  // Fresh seed for runs where the caller did not supply one
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+
+  // Uniform on [0, 1)
+  next(): number {
+    const s = this.state;
+    const result = Math.imul(this.rotateLeft(Math.imul(s[1], 5) >>> 0, 7), 9) >>> 0;
+    const t = (s[1] << 9) >>> 0;
+
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = this.rotateLeft(s[3], 11);
+
+    return result / 4294967296;
+  }
+
+  // Standard normal via Box-Muller, caching the second variate
+  nextNormal(): number {
+    if (this.spareNormal !== null) {
+      const spare = this.spareNormal;
+      this.spareNormal = null;
+      return spare;
+    }
+
+    let u = 0, v = 0;
+    while (u === 0) u = this.next();
+    while (v === 0) v = this.next();
+    const radius = Math.sqrt(-2.0 * Math.log(u));
+    this.spareNormal = radius * Math.sin(2.0 * Math.PI * v);
+    return radius * Math.cos(2.0 * Math.PI * v);
+  }
+
+  // Gamma(shape, 1) by Marsaglia-Tsang
+  nextGamma(shape: number): number {
+    if (shape < 1) {
+      // Boost small shapes: Gamma(a) = Gamma(a + 1) * U^(1/a)
+      return this.nextGamma(shape + 1) * Math.pow(this.next() || Number.MIN_VALUE, 1 / shape);
+    }
+
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    for (;;) {
+      let x: number, v: number;
+      do {
+        x = this.nextNormal();
+        v = 1 + c * x;
+      } while (v <= 0);
+      v = v * v * v;
+      const u = this.next();
+      if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+      if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+    }
+  }
+
+  // Student-t with `degreesOfFreedom`, rescaled to unit variance (requires degreesOfFreedom > 2);
+  // pass `normal` to build the variate on an existing normal draw, e.g. an antithetic or Sobol shock
+  nextStudentT(degreesOfFreedom: number, normal: number = this.nextNormal()): number {
+    const chiSquare = 2 * this.nextGamma(degreesOfFreedom / 2);
+    const t = normal / Math.sqrt(chiSquare / degreesOfFreedom);
+    return t * Math.sqrt((degreesOfFreedom - 2) / degreesOfFreedom);
+  }
+
+  // Poisson count by Knuth's multiplication method (suited to small daily jump intensities)
+  nextPoisson(lambda: number): number {
+    const limit = Math.exp(-lambda);
+    let count = 0;
+    let product = this.next();
+    while (product > limit) {
+      count++;
+      product *= this.next();
+    }
+    return count;
+  }
+
+  private rotateLeft(x: number, k: number): number {
+    return ((x << k) | (x >>> (32 - k))) >>> 0;
+  }
+}
+
+// Joe-Kuo direction numbers for Sobol dimensions 2-21: [polynomial degree, coefficients, initial m values]
+const SOBOL_DIRECTION_PARAMETERS: Array<[number, number, number[]]> = [
+  [1, 0, [1]],
+  [2, 1, [1, 3]],
+  [3, 1, [1, 3, 1]],
+  [3, 2, [1, 1, 1]],
+  [4, 1, [1, 1, 3, 3]],
+  [4, 4, [1, 3, 5, 13]],
+  [5, 2, [1, 1, 5, 5, 17]],
+  [5, 4, [1, 1, 5, 5, 5]],
+  [5, 7, [1, 1, 7, 11, 19]],
+  [5, 11, [1, 1, 5, 1, 1]],
+  [5, 13, [1, 1, 1, 3, 11]],
+  [5, 14, [1, 3, 5, 5, 31]],
+  [6, 1, [1, 3, 3, 9, 7, 49]],
+  [6, 13, [1, 1, 1, 15, 21, 21]],
+  [6, 16, [1, 3, 1, 13, 27, 49]],
+  [6, 19, [1, 1, 1, 15, 7, 5]],
+  [6, 22, [1, 3, 1, 15, 13, 25]],
+  [6, 25, [1, 1, 5, 5, 19, 61]],
+  [7, 1, [1, 3, 7, 11, 23, 15, 103]],
+  [7, 4, [1, 3, 7, 13, 13, 15, 69]]
+];
+
+// Sobol low-discrepancy sequence in Gray-code order, randomized by a digital shift so that
+// independent replicates give unbiased estimates with a measurable standard error
+export class SobolSequence {
+  static readonly MAX_DIMENSIONS = SOBOL_DIRECTION_PARAMETERS.length + 1;
+  readonly dimensions: number;
+  private directions: Uint32Array[];
+  private point: Uint32Array;
+  private shift: Uint32Array;
+  private index = 0;
+
+  constructor(dimensions: number) {
+    if (dimensions < 1 || dimensions > SobolSequence.MAX_DIMENSIONS) {
+      throw new Error(`Sobol sequence supports 1 to ${SobolSequence.MAX_DIMENSIONS} dimensions`);
+    }
+    this.dimensions = dimensions;
+    this.point = new Uint32Array(dimensions);
+    this.shift = new Uint32Array(dimensions);
+    this.directions = Array.from({ length: dimensions }, (_, dimension) => {
+      const v = new Uint32Array(32);
+      if (dimension === 0) {
+        for (let k = 0; k < 32; k++) v[k] = (1 << (31 - k)) >>> 0;
+        return v;
+      }
+
+      const [degree, coefficients, initial] = SOBOL_DIRECTION_PARAMETERS[dimension - 1];
+      for (let k = 0; k < degree; k++) v[k] = (initial[k] << (31 - k)) >>> 0;
+      for (let k = degree; k < 32; k++) {
+        let value = v[k - degree] ^ (v[k - degree] >>> degree);
+        for (let j = 1; j < degree; j++) {
+          if ((coefficients >>> (degree - 1 - j)) & 1) value ^= v[k - j];
+        }
+        v[k] = value >>> 0;
+      }
+      return v;
+    });
+  }
+
+  // Restart from the first point, drawing a fresh digital shift when a generator is given
+  reset(random?: SeededRandom): void {
+    this.index = 0;
+    this.point.fill(0);
+    for (let d = 0; d < this.dimensions; d++) {
+      this.shift[d] = random ? Math.floor(random.next() * 4294967296) >>> 0 : 0;
+    }
+  }
+
+  // Next point in (0, 1)^dimensions
+  next(): number[] {
+    if (this.index > 0) {
+      // Gray code: flip the direction number at the lowest zero bit of the previous index
+      let bit = 0;
+      let previous = this.index - 1;
+      while (previous & 1) {
+        previous >>>= 1;
+        bit++;
+      }
+      for (let d = 0; d < this.dimensions; d++) this.point[d] ^= this.directions[d][bit];
+    }
+    this.index++;
+
+    return Array.from(this.point, (x, d) => (((x ^ this.shift[d]) >>> 0) + 0.5) / 4294967296);
+  }
+}
@@ -0,0 +1,56 @@
+export interface RiskFreeRatePoint {
+  date: string;
+  rate: number; // Annualized, as a decimal (0.045 = 4.5%)
+}
+
+// A constant annual rate or a dated series (e.g. 3-month T-bill yields)
+export type RiskFreeRateInput = number | RiskFreeRatePoint[];
+
+export const DEFAULT_RISK_FREE_RATE = 0.02;
+
+// Risk-free rate shared by the risk and options engines; a dated series is read as a step
+// function, each observation applying until the next one
+export class RiskFreeRate {
+  private constant: number;
+  private series: RiskFreeRatePoint[];
+
+  constructor(input: RiskFreeRateInput = DEFAULT_RISK_FREE_RATE) {
+    if (typeof input === 'number') {
+      this.constant = input;
+      this.series = [];
+    } else {
+      this.series = input
+        .map(point => ({ date: point.date.slice(0, 10), rate: point.rate }))
+        .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+      this.constant = this.series.length > 0 ? this.series[this.series.length - 1].rate : DEFAULT_RISK_FREE_RATE;
+    }
+  }
+
+  // Accepts either form so callers can share one instance across engines
+  static from(input?: RiskFreeRateInput | RiskFreeRate): RiskFreeRate {
+    return input instanceof RiskFreeRate ? input : new RiskFreeRate(input);
+  }
+
+  // Annual rate in force on `date` (the latest rate when no date is given)
+  annualRate(date?: string): number {
+    if (this.series.length === 0 || date === undefined) return this.constant;
+
+    const key = date.slice(0, 10);
+    if (key < this.series[0].date) return this.series[0].rate;
+
+    // Last observation on or before the date
+    let low = 0;
+    let high = this.series.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.series[middle].date <= key) low = middle;
+      else high = middle - 1;
+    }
+    return this.series[low].rate;
+  }
+
+  // Per-trading-day rate on `date`
+  dailyRate(date?: string): number {
+    return this.annualRate(date) / 252;
+  }
+}
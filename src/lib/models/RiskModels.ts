@@ -1,6 +1,8 @@
-import { Matrix } from 'ml-matrix';
+import { Matrix, inverse } from 'ml-matrix';
 import { mean, standardDeviation, variance, quantile } from 'simple-statistics';
 import { evaluate } from 'mathjs';
+import { SeededRandom, SobolSequence } from './Random';
+import { RiskFreeRate, RiskFreeRateInput } from './RiskFreeRate';
 
 export interface MarketData {
   date: string;
@@ -11,18 +13,46 @@ export interface MarketData {
   volume: number;
 }
 
+export type VaRMethod = 'parametric' | 'historical' | 'cornish-fisher' | 'filtered-historical';
+
 export interface RiskMetrics {
   var95: number;
   var99: number;
+  varMethod: VaRMethod;
   expectedShortfall95: number;
   expectedShortfall99: number;
   volatility: number;
   skewness: number;
   kurtosis: number;
   sharpeRatio: number;
+  sortinoRatio: number; // Excess return over downside deviation below the risk-free rate
+  omegaRatio: number; // Gains over losses relative to the risk-free rate
+  treynorRatio: number | null; // Excess return per unit of beta; null without a benchmark
+  calmarRatio: number;
+  sterlingRatio: number; // Annualized return over the mean depth of the five deepest drawdowns
+  gainPainRatio: number; // Sum of daily returns over the sum of losses
+  probabilisticSharpeRatio: number; // Probability that the true Sharpe ratio exceeds zero
+  deflatedSharpeRatio: number; // Same, against the best Sharpe expected from `sharpeTrials` attempts
+  sharpeTrials: number;
+  riskFreeRate: number; // Mean annual risk-free rate over the sample
   maxDrawdown: number;
   beta: number;
   alpha: number;
+  benchmark: BenchmarkRegression | null; // Null without a benchmark or enough date overlap
+}
+
+export interface BenchmarkRegression {
+  observations: number; // Date-matched daily return pairs
+  beta: number;
+  alpha: number; // Annualized regression intercept
+  betaStandardError: number;
+  alphaStandardError: number; // Annualized
+  rSquared: number;
+  correlation: number;
+  trackingError: number; // Annualized standard deviation of active returns
+  informationRatio: number; // Annualized mean active return over tracking error
+  upCapture: number; // Mean return on benchmark up days relative to the benchmark's
+  downCapture: number; // Mean return on benchmark down days relative to the benchmark's
 }
 
 export interface VolumeProfile {
@@ -34,6 +64,31 @@ export interface VolumeProfile {
   valueAreaLow: number;
 }
 
+export interface LiquidityOptions {
+  positionShares: number;
+  window?: number; // Trailing trading days for volume and volatility (default 21)
+  participationRate?: number; // Largest share of daily volume sold per day (default 0.1)
+  impactCoefficient?: number; // Square-root law constant Y (default 1)
+}
+
+export interface LiquidityAnalysis {
+  window: number;
+  tradingDays: number; // Days in the window with reported volume
+  averageDailyVolume: number; // Shares
+  averageDailyDollarVolume: number;
+  amihudIlliquidity: number; // Mean |daily return| per $1M traded
+  positionShares: number;
+  positionValue: number;
+  participationRate: number;
+  daysToLiquidate: number; // Trading days to sell the position at the participation rate
+  dailyVolatility: number; // Over the window, used to scale impact
+  impactCost: number; // Expected square-root market impact as a fraction of position value
+}
+
+export type MonteCarloProcess = 'gbm' | 'merton-jump' | 'student-t' | 'historical-bootstrap' | 'block-bootstrap';
+
+export type MonteCarloSampling = 'pseudo-random' | 'antithetic' | 'sobol';
+
 export interface MonteCarloResult {
   scenarios: number[];
   probabilities: number[];
@@ -44,17 +99,348 @@ export interface MonteCarloResult {
   expectedReturn: number;
   worstCase: number;
   bestCase: number;
+  seed: number; // PRNG seed that reproduces this simulation
+  process: MonteCarloProcess;
+  pathStatistics: MonteCarloPathStatistics;
+  samplePaths: number[][]; // Full price paths (day 0 = current price) for fan charts
+  probabilityStandardErrors: number[]; // Standard error of each entry in `probabilities`
+  varianceReduction: MonteCarloVarianceReduction;
+}
+
+export interface MonteCarloVarianceReduction {
+  sampling: MonteCarloSampling; // Scheme actually used (bootstraps always resample pseudo-randomly)
+  controlVariate: boolean; // Whether the analytic GBM control variate was applied
+  analyticProbability: number | null; // Closed-form GBM probability of finishing below the target
+  controlCoefficient: number | null; // Fitted control-variate coefficient for the terminal probability
+  independentUnits: number; // Paths, antithetic pairs or Sobol replicates behind the standard errors
+}
+
+export interface MonteCarloPathStatistics {
+  hitProbability: number; // Probability of touching the target at any daily close
+  hitProbabilityStandardError: number;
+  expectedTimeToHit: number | null; // Mean days to first touch among paths that hit
+  maxDrawdowns: number[]; // Maximum drawdown of every path, sorted ascending
+  maxDrawdownMean: number;
+  maxDrawdownMedian: number;
+  maxDrawdown95: number; // 95th percentile
+  maxDrawdown99: number; // 99th percentile
+}
+
+export interface JumpDiffusionParameters {
+  intensity: number; // Expected jumps per day (lambda)
+  jumpMean: number; // Mean log jump size
+  jumpVolatility: number; // Standard deviation of log jump size
+  diffusionVolatility: number; // Daily volatility of the continuous component
+  jumpCount: number;
+}
+
+export interface MonteCarloProcessComparison {
+  seed: number; // Shared by every process (common random numbers)
+  targetDecline: number;
+  processes: Array<{
+    process: MonteCarloProcess;
+    declineProbability: number;
+    changeFromGBM: number; // Difference in decline probability versus GBM
+    result: MonteCarloResult;
+  }>;
+}
+
+export type VolatilityModelType = 'GARCH' | 'GJR-GARCH' | 'EGARCH';
+
+export interface GARCHParameters {
+  omega: number;
+  alpha: number;
+  beta: number;
+  gamma: number; // Leverage term (0 for the symmetric GARCH)
+  persistence: number; // alpha + beta (+ gamma / 2 for GJR, beta for EGARCH)
+  longRunVariance: number; // Unconditional variance implied by the fit
+  halfLife: number; // Days for a variance shock to decay by half
+}
+
+export interface GARCHResult {
+  model: VolatilityModelType;
+  volatility: number[];
+  forecast: number;
+  parameters: GARCHParameters;
+  logLikelihood: number;
+  aic: number;
+  bic: number;
+  converged: boolean;
+}
+
+export interface VolatilityForecastPoint {
+  horizon: number; // Trading days ahead
+  dailyVariance: number; // Forward variance for day `horizon`
+  cumulativeVariance: number; // Total variance from day 1 to `horizon`
+  annualizedVolatility: number; // sqrt(cumulativeVariance / horizon * 252)
+}
+
+export interface MonteCarloOptions {
+  volatilityForecast?: VolatilityForecastPoint[]; // Per-day variances; constant sample variance if omitted (ignored by bootstraps)
+  seed?: number; // Fixed seed for a reproducible run; a fresh one is drawn if omitted
+  process?: MonteCarloProcess; // Defaults to GBM
+  samplePathCount?: number; // Number of full paths to keep (default 100)
+  meanBlockLength?: number; // Expected block length in days for the stationary block bootstrap (default 10)
+  sampling?: MonteCarloSampling; // Normal draws: pseudo-random (default), antithetic pairs or scrambled Sobol
+  controlVariate?: boolean; // Correct probabilities with the analytic GBM terminal distribution (ignored by bootstraps)
+}
+
+export interface VaRBreakdown {
+  confidenceLevel: number;
+  horizon: number;
+  parametric: number; // Normal distribution
+  historical: number; // Empirical quantile
+  cornishFisher: number; // Normal quantile adjusted for skewness and excess kurtosis
+  filteredHistorical: number; // GARCH-standardised residual quantile rescaled by the volatility forecast
+}
+
+export interface EVTTailEstimate {
+  confidenceLevel: number;
+  var: number;
+  expectedShortfall: number;
+}
+
+export interface MeanExcessPoint {
+  threshold: number;
+  meanExcess: number;
+  exceedances: number;
+}
+
+export interface EVTResult {
+  threshold: number; // Loss level above which the GPD is fitted
+  thresholdQuantile: number;
+  exceedances: number;
+  sampleSize: number;
+  tailIndex: number; // GPD shape xi (> 0 means a heavy, power-law tail)
+  scale: number; // GPD scale beta
+  logLikelihood: number;
+  converged: boolean;
+  estimates: EVTTailEstimate[];
+  meanExcess: MeanExcessPoint[];
+}
+
+export interface HorizonRiskEstimate {
+  var: number;
+  expectedShortfall: number;
+}
+
+export interface HorizonRisk {
+  horizon: number; // Trading days
+  confidenceLevel: number;
+  historical: HorizonRiskEstimate; // Overlapping h-day compounded returns
+  parametric: HorizonRiskEstimate; // Normal with h-scaled mean and sqrt(h)-scaled volatility
+  monteCarlo: HorizonRiskEstimate; // Simulated h-day returns
+}
+
+export interface VaRBacktestObservation {
+  date: string;
+  return: number;
+  var: number; // Positive loss threshold estimated from the preceding window
+  exception: boolean;
+}
+
+export interface LikelihoodRatioTest {
+  statistic: number;
+  pValue: number;
+  reject: boolean; // Rejected at the 5% significance level
+}
+
+export interface VaRBacktestResult {
+  confidenceLevel: number;
+  window: number;
+  observations: VaRBacktestObservation[];
+  exceptions: number;
+  expectedExceptions: number;
+  exceptionRate: number;
+  kupiec: LikelihoodRatioTest; // Proportion of failures (unconditional coverage)
+  christoffersen: LikelihoodRatioTest; // Independence of exceptions
+  conditionalCoverage: LikelihoodRatioTest; // Kupiec + Christoffersen, 2 degrees of freedom
+  baselZone: 'green' | 'yellow' | 'red' | null; // Traffic light on the last 250 observations; null with fewer than 250
+  baselExceptions: number;
+}
+
+export interface DrawdownEpisode {
+  startDate: string; // Peak before the decline
+  troughDate: string;
+  recoveryDate: string | null; // First close back at the prior peak; null while still underwater
+  depth: number; // Peak-to-trough decline as a positive fraction
+  daysToTrough: number; // Trading days from peak to trough
+  daysToRecover: number | null; // Trading days from trough to recovery
+  duration: number; // Trading days from peak to recovery, or to the latest close if unrecovered
+}
+
+export interface UnderwaterPoint {
+  date: string;
+  drawdown: number; // Distance below the running peak (0 at a new high, negative otherwise)
+}
+
+export interface DrawdownAnalysis {
+  episodes: DrawdownEpisode[]; // Deepest first
+  underwater: UnderwaterPoint[];
+  maxDrawdown: number;
+  currentDrawdown: number;
+  calmarRatio: number; // Annualized return over maximum drawdown
+  ulcerIndex: number; // Root mean square of the underwater curve
+  painIndex: number; // Mean depth of the underwater curve
+  conditionalDrawdownAtRisk: number; // Mean of the worst (1 - confidence) share of drawdowns
+  confidenceLevel: number;
+}
+
+export interface RollingMetricPoint {
+  date: string; // Last day of the window
+  volatility: number; // Annualized
+  var: number; // Historical one-day VaR at the series confidence level
+  beta: number | null; // Null when the window has too little benchmark overlap
+  sharpeRatio: number; // Annualized
+  skewness: number;
+  kurtosis: number; // Excess kurtosis
+}
+
+export interface RollingMetricsSeries {
+  window: number; // Trading days per window
+  confidenceLevel: number;
+  points: RollingMetricPoint[];
+}
+
+export interface RangeVolatilityEstimates {
+  closeToClose: number; // All estimates annualized
+  parkinson: number; // High-low range
+  garmanKlass: number; // High-low range plus open-to-close
+  rogersSatchell: number; // Drift-independent
+  yangZhang: number; // Overnight, open-to-close and Rogers-Satchell components combined
+  observations: number; // Bars with a usable OHLC range
+}
+
+export interface RangeVolatilityPoint extends RangeVolatilityEstimates {
+  date: string; // Last bar of the window
+}
+
+export interface VolatilityConePoint {
+  horizon: number; // Trading days
+  min: number; // Annualized realised volatility across all historical windows of this length
+  percentile25: number;
+  median: number;
+  percentile75: number;
+  max: number;
+  current: number; // Most recent window
+  percentileRank: number; // Share of historical windows below the current value
+  windows: number; // Overlapping windows in the history
+}
+
+export interface RegimeState {
+  label: string; // Direction from the mean, volatility rank among the states
+  mean: number; // Annualized mean log return
+  volatility: number; // Annualized
+  stationaryProbability: number; // Long-run share of time spent in the state
+  expectedDuration: number; // 1 / (1 - p_ii) trading days
+}
+
+export interface RegimePathPoint {
+  date: string;
+  close: number;
+  state: number; // Most probable state given the whole sample
+  probabilities: number[]; // Smoothed state probabilities
+}
+
+export interface RegimeModel {
+  states: RegimeState[]; // Ordered from lowest to highest volatility
+  transitionMatrix: number[][]; // transitionMatrix[i][j] = P(state j tomorrow | state i today)
+  currentState: number;
+  currentProbabilities: number[]; // Filtered probabilities on the last date (no look-ahead)
+  nextDayProbabilities: number[];
+  path: RegimePathPoint[];
+  logLikelihood: number;
+  aic: number;
+  bic: number;
+  iterations: number;
+  converged: boolean;
+}
+
+export interface ReturnSegment {
+  startDate: string;
+  endDate: string;
+  observations: number;
+  mean: number; // Annualized mean log return
+  volatility: number; // Annualized
+}
+
+export interface CUSUMTest {
+  statistic: number; // Scaled maximum of the cumulative sum, Kolmogorov-distributed under no break
+  pValue: number;
+  breakDate: string; // Date at which the cumulative sum peaks
+  significant: boolean; // At 5%
+}
+
+export interface ChangePointAnalysis {
+  changePoints: string[]; // First date of each new segment
+  segments: ReturnSegment[];
+  penalty: number;
+  minSegmentLength: number;
+  cusumMean: CUSUMTest; // Shift in mean returns
+  cusumVariance: CUSUMTest; // Shift in variance, kurtosis-adjusted CUSUM of squares
+  lastBreakDate: string | null; // Start of the current segment, suggested as the estimation window
+  observationsSinceBreak: number;
+}
+
+export type PersistenceRegime = 'trending' | 'mean-reverting' | 'random-walk';
+
+export interface VarianceRatioResult {
+  lag: number; // Return horizon q in days
+  ratio: number; // Var(q-day returns) / (q * Var(daily returns)); 1 for a random walk
+  zStatistic: number; // Heteroskedasticity-robust Lo-MacKinlay z*
+  pValue: number; // Two-sided
+}
+
+export interface StationarityTest {
+  statistic: number;
+  criticalValues: { '1%': number; '5%': number; '10%': number };
+  lags: number;
+  stationary: boolean; // ADF: unit root rejected at 5%; KPSS: level stationarity not rejected at 5%
+}
+
+export interface OrnsteinUhlenbeckEstimate {
+  speed: number; // Daily mean-reversion rate theta
+  longRunMean: number; // Equilibrium log price
+  equilibriumPrice: number;
+  halfLife: number; // Trading days for a deviation to halve; Infinity when not mean-reverting
+  volatility: number; // Annualized residual volatility
+}
+
+export interface PersistenceDiagnostics {
+  hurstRS: number; // Rescaled range, Anis-Lloyd-Peters small-sample corrected
+  hurstDFA: number; // Detrended fluctuation analysis
+  varianceRatios: VarianceRatioResult[];
+  adf: StationarityTest; // Augmented Dickey-Fuller on log prices
+  kpss: StationarityTest; // KPSS on log prices
+  ornsteinUhlenbeck: OrnsteinUhlenbeckEstimate; // AR(1) fit of log prices
+  classification: PersistenceRegime;
+  evidence: string[]; // Diagnostics that voted for the classification
+}
+
+interface RegimeParameters {
+  initial: number[];
+  transition: number[][];
+  means: number[];
+  variances: number[];
+}
+
+export interface VolatilityModelComparison {
+  models: GARCHResult[];
+  bestByAIC: VolatilityModelType;
+  bestByBIC: VolatilityModelType;
 }
 
 export class AdvancedRiskEngine {
   private data: MarketData[];
   private returns: number[];
   private logReturns: number[];
+  private riskFreeRate: RiskFreeRate;
 
-  constructor(data: MarketData[]) {
+  constructor(data: MarketData[], riskFreeRate?: RiskFreeRateInput | RiskFreeRate) {
     this.data = data;
     this.returns = this.calculateReturns();
     this.logReturns = this.calculateLogReturns();
+    this.riskFreeRate = RiskFreeRate.from(riskFreeRate);
   }
 
   // Public method to access returns for external calculations
@@ -66,6 +452,11 @@ export class AdvancedRiskEngine {
     return this.logReturns;
   }
 
+  // Shared with OptionsAnalyzer so option repricing discounts at the same rate
+  public getRiskFreeRate(): RiskFreeRate {
+    return this.riskFreeRate;
+  }
+
   private calculateReturns(): number[] {
     const returns: number[] = [];
     for (let i = 1; i < this.data.length; i++) {
@@ -84,63 +475,337 @@ export class AdvancedRiskEngine {
     return logReturns;
   }
 
-  // GARCH(1,1) Model Implementation
-  calculateGARCH(): { volatility: number[]; forecast: number } {
+  // GARCH-family volatility models - parameters fitted by Gaussian quasi-MLE
+  calculateGARCH(model: VolatilityModelType = 'GARCH'): GARCHResult {
     const returns = this.returns;
     const n = returns.length;
+    const meanReturn = mean(returns);
+    const residuals = returns.map(r => r - meanReturn);
+    const sampleVariance = variance(returns);
     
-    // Initial parameters
-    let omega = 0.00001;
-    let alpha = 0.08;
-    let beta = 0.91;
+    const spec = this.volatilityModelSpec(model, sampleVariance);
     
-    const volatility: number[] = [];
-    let conditionalVariance = variance(returns);
+    const negativeLogLikelihood = (x: number[]): number => {
+      const result = this.volatilityLogLikelihood(model, residuals, spec.toParameters(x), sampleVariance);
+      return isFinite(result.logLikelihood) ? -result.logLikelihood : Number.MAX_VALUE;
+    };
     
-    // GARCH iteration
-    for (let i = 0; i < n; i++) {
-      if (i === 0) {
-        volatility.push(Math.sqrt(conditionalVariance));
-      } else {
-        conditionalVariance = omega + alpha * Math.pow(returns[i - 1], 2) + beta * conditionalVariance;
-        volatility.push(Math.sqrt(conditionalVariance));
-      }
-    }
+    const optimum = this.nelderMead(negativeLogLikelihood, spec.initial, 300 * spec.initial.length);
+    const params = spec.toParameters(optimum.point);
+    const fit = this.volatilityLogLikelihood(model, residuals, params, sampleVariance);
+    
+    const volatility = fit.variances.map(v => Math.sqrt(v));
     
     // Forecast next period volatility
-    const lastReturn = returns[n - 1];
-    const forecast = Math.sqrt(omega + alpha * Math.pow(lastReturn, 2) + beta * conditionalVariance);
+    const forecast = Math.sqrt(this.nextConditionalVariance(model, params, residuals[n - 1], fit.variances[n - 1]));
+    
+    const { omega, alpha, beta, gamma } = params;
+    let persistence: number;
+    let longRunVariance: number;
+    if (model === 'EGARCH') {
+      // Log-variance is AR(1) in beta; E|z| - sqrt(2/pi) and E[z] are zero
+      persistence = beta;
+      longRunVariance = Math.exp(omega / (1 - beta));
+    } else {
+      persistence = alpha + beta + (model === 'GJR-GARCH' ? gamma / 2 : 0);
+      longRunVariance = omega / (1 - persistence);
+    }
+    
+    const parameterCount = spec.initial.length;
     
-    return { volatility, forecast };
+    return {
+      model,
+      volatility,
+      forecast,
+      parameters: {
+        omega,
+        alpha,
+        beta,
+        gamma,
+        persistence,
+        longRunVariance,
+        halfLife: Math.log(0.5) / Math.log(Math.abs(persistence))
+      },
+      logLikelihood: fit.logLikelihood,
+      aic: 2 * parameterCount - 2 * fit.logLikelihood,
+      bic: parameterCount * Math.log(n) - 2 * fit.logLikelihood,
+      converged: optimum.converged
+    };
   }
 
-  // Value at Risk calculations
-  calculateVaR(confidenceLevel: number, horizon: number = 1): number {
-    const sortedReturns = [...this.returns].sort((a, b) => a - b);
-    const alpha = 1 - confidenceLevel;
-    const index = Math.floor(alpha * sortedReturns.length);
+  // Multi-step variance forecasts mean-reverting from the one-day forecast to the long-run variance
+  forecastVolatilityTermStructure(
+    maxHorizon: number = 252,
+    fit: GARCHResult = this.calculateGARCH()
+  ): VolatilityForecastPoint[] {
+    const { persistence, longRunVariance } = fit.parameters;
+    const firstVariance = Math.pow(fit.forecast, 2);
+    const points: VolatilityForecastPoint[] = [];
+    let cumulativeVariance = 0;
     
-    // Parametric VaR
-    const meanReturn = mean(this.returns);
-    const stdDev = standardDeviation(this.returns);
-    const zScore = this.inverseNormal(confidenceLevel);
+    for (let h = 1; h <= maxHorizon; h++) {
+      const decay = Math.pow(persistence, h - 1);
+      // EGARCH mean-reverts in log-variance (Jensen term ignored)
+      const dailyVariance = fit.model === 'EGARCH'
+        ? Math.exp(Math.log(longRunVariance) + decay * (Math.log(firstVariance) - Math.log(longRunVariance)))
+        : longRunVariance + decay * (firstVariance - longRunVariance);
+      cumulativeVariance += dailyVariance;
+      
+      points.push({
+        horizon: h,
+        dailyVariance,
+        cumulativeVariance,
+        annualizedVolatility: Math.sqrt(cumulativeVariance / h * 252)
+      });
+    }
+    
+    return points;
+  }
+
+  // Annualized next-day volatility the fitted model implies if today's return is `shockReturn`
+  forecastVolatilityAfterShock(shockReturn: number, fit: GARCHResult = this.calculateGARCH()): number {
+    const residual = shockReturn - mean(this.returns);
+    const nextVariance = this.nextConditionalVariance(fit.model, fit.parameters, residual, fit.forecast * fit.forecast);
+    return Math.sqrt(nextVariance * 252);
+  }
+
+  // Fit every volatility model and rank them by information criteria
+  compareVolatilityModels(): VolatilityModelComparison {
+    const modelTypes: VolatilityModelType[] = ['GARCH', 'GJR-GARCH', 'EGARCH'];
+    const models = modelTypes.map(model => this.calculateGARCH(model));
+    
+    const bestBy = (criterion: 'aic' | 'bic') =>
+      models.reduce((best, m) => (m[criterion] < best[criterion] ? m : best)).model;
+    
+    return {
+      models,
+      bestByAIC: bestBy('aic'),
+      bestByBIC: bestBy('bic')
+    };
+  }
+
+  // Value at Risk calculations; with `liquidity`, adds the expected cost of liquidating that position (LVaR).
+  // Filtered historical VaR uses `fit`, fitting GARCH when none is given
+  calculateVaR(
+    confidenceLevel: number,
+    horizon: number = 1,
+    method: VaRMethod = 'historical',
+    liquidity?: LiquidityOptions,
+    fit?: GARCHResult
+  ): number {
+    const liquidationCost = liquidity ? this.requireLiquidity(liquidity).impactCost : 0;
+    if (method === 'filtered-historical') {
+      return this.filteredHistoricalVaR(confidenceLevel, horizon, fit ?? this.calculateGARCH()) + liquidationCost;
+    }
+    return this.estimateVaR(this.returns, confidenceLevel, horizon, method) + liquidationCost;
+  }
+
+  // Every VaR methodology side by side
+  calculateVaRBreakdown(
+    confidenceLevel: number,
+    horizon: number = 1,
+    fit: GARCHResult = this.calculateGARCH()
+  ): VaRBreakdown {
+    return {
+      confidenceLevel,
+      horizon,
+      parametric: this.estimateVaR(this.returns, confidenceLevel, horizon, 'parametric'),
+      historical: this.estimateVaR(this.returns, confidenceLevel, horizon, 'historical'),
+      cornishFisher: this.estimateVaR(this.returns, confidenceLevel, horizon, 'cornish-fisher'),
+      filteredHistorical: this.filteredHistoricalVaR(confidenceLevel, horizon, fit)
+    };
+  }
+
+  // Rolling out-of-sample VaR backtest: each day's VaR uses only the preceding `window` returns
+  backtestVaR(confidenceLevel: number = 0.99, window: number = 250): VaRBacktestResult {
+    const returns = this.returns;
+    const observations: VaRBacktestObservation[] = [];
+    
+    for (let t = window; t < returns.length; t++) {
+      const varEstimate = this.estimateVaR(returns.slice(t - window, t), confidenceLevel);
+      observations.push({
+        date: this.data[t + 1].date,
+        return: returns[t],
+        var: varEstimate,
+        exception: returns[t] < -varEstimate
+      });
+    }
+    
+    const n = observations.length;
+    const p = 1 - confidenceLevel;
+    const hits = observations.map(o => o.exception);
+    const exceptions = hits.filter(Boolean).length;
+    
+    // Kupiec proportion-of-failures test
+    const observedRate = n > 0 ? exceptions / n : 0;
+    const kupiecStatistic = -2 * (
+      this.xLogY(n - exceptions, 1 - p) + this.xLogY(exceptions, p) -
+      this.xLogY(n - exceptions, 1 - observedRate) - this.xLogY(exceptions, observedRate)
+    );
+    
+    // Christoffersen independence test on the first-order Markov transition counts
+    let n00 = 0, n01 = 0, n10 = 0, n11 = 0;
+    for (let i = 1; i < hits.length; i++) {
+      if (!hits[i - 1] && !hits[i]) n00++;
+      else if (!hits[i - 1] && hits[i]) n01++;
+      else if (hits[i - 1] && !hits[i]) n10++;
+      else n11++;
+    }
+    const pi01 = n00 + n01 > 0 ? n01 / (n00 + n01) : 0;
+    const pi11 = n10 + n11 > 0 ? n11 / (n10 + n11) : 0;
+    const pi = n00 + n01 + n10 + n11 > 0 ? (n01 + n11) / (n00 + n01 + n10 + n11) : 0;
+    const christoffersenStatistic = -2 * (
+      this.xLogY(n00 + n10, 1 - pi) + this.xLogY(n01 + n11, pi) -
+      this.xLogY(n00, 1 - pi01) - this.xLogY(n01, pi01) -
+      this.xLogY(n10, 1 - pi11) - this.xLogY(n11, pi11)
+    );
+    
+    const kupiecPValue = this.chiSquarePValue(kupiecStatistic, 1);
+    const christoffersenPValue = this.chiSquarePValue(christoffersenStatistic, 1);
+    const conditionalCoverageStatistic = kupiecStatistic + christoffersenStatistic;
+    const conditionalCoveragePValue = this.chiSquarePValue(conditionalCoverageStatistic, 2);
+    
+    // Basel traffic light: zones by cumulative binomial probability of the exception count, only over a full 250 days
+    const baselWindow = observations.slice(-250);
+    const baselExceptions = baselWindow.filter(o => o.exception).length;
+    const cumulativeProbability = this.binomialCDF(baselExceptions, baselWindow.length, p);
+    const baselZone = baselWindow.length < 250
+      ? null
+      : cumulativeProbability < 0.95 ? 'green' : cumulativeProbability < 0.9999 ? 'yellow' : 'red';
+    
+    return {
+      confidenceLevel,
+      window,
+      observations,
+      exceptions,
+      expectedExceptions: n * p,
+      exceptionRate: observedRate,
+      kupiec: { statistic: kupiecStatistic, pValue: kupiecPValue, reject: kupiecPValue < 0.05 },
+      christoffersen: { statistic: christoffersenStatistic, pValue: christoffersenPValue, reject: christoffersenPValue < 0.05 },
+      conditionalCoverage: {
+        statistic: conditionalCoverageStatistic,
+        pValue: conditionalCoveragePValue,
+        reject: conditionalCoveragePValue < 0.05
+      },
+      baselZone,
+      baselExceptions
+    };
+  }
+
+  // Extreme Value Theory: peaks-over-threshold Generalised Pareto fit to the loss tail
+  calculateEVT(
+    confidenceLevels: number[] = [0.99, 0.995, 0.999],
+    thresholdQuantile: number = 0.95
+  ): EVTResult {
+    const losses = this.returns.map(r => -r).sort((a, b) => a - b);
+    const n = losses.length;
+    const threshold = quantile(losses, thresholdQuantile);
+    const excesses = losses.filter(l => l > threshold).map(l => l - threshold);
+    const k = excesses.length;
+    
+    const negativeLogLikelihood = (x: number[]): number => {
+      const xi = x[0];
+      const scale = Math.exp(x[1]);
+      let sum = 0;
+      for (const y of excesses) {
+        if (Math.abs(xi) < 1e-8) {
+          sum += y / scale;
+        } else {
+          const term = 1 + xi * y / scale;
+          if (term <= 0) return Number.MAX_VALUE;
+          sum += (1 + 1 / xi) * Math.log(term);
+        }
+      }
+      return k * Math.log(scale) + sum;
+    };
     
-    const parametricVaR = -(meanReturn + zScore * stdDev) * Math.sqrt(horizon);
+    // Method-of-moments starting values
+    const excessMean = mean(excesses);
+    const excessVariance = excesses.length > 1 ? variance(excesses) : excessMean * excessMean;
+    const ratio = excessMean * excessMean / excessVariance;
+    const initial = [0.5 * (1 - ratio), Math.log(0.5 * excessMean * (1 + ratio))];
     
-    // Historical VaR
-    const historicalVaR = -sortedReturns[index];
+    const optimum = this.nelderMead(negativeLogLikelihood, initial);
+    const xi = optimum.point[0];
+    const scale = Math.exp(optimum.point[1]);
     
-    return Math.max(parametricVaR, historicalVaR);
+    const estimates = confidenceLevels.map(confidenceLevel => {
+      const tailRatio = (n / k) * (1 - confidenceLevel);
+      const varEstimate = Math.abs(xi) < 1e-8
+        ? threshold - scale * Math.log(tailRatio)
+        : threshold + (scale / xi) * (Math.pow(tailRatio, -xi) - 1);
+      // ES is infinite when xi >= 1 (no finite mean)
+      const expectedShortfall = xi < 1
+        ? (varEstimate + scale - xi * threshold) / (1 - xi)
+        : Infinity;
+      return { confidenceLevel, var: varEstimate, expectedShortfall };
+    });
+    
+    // Mean excess function over candidate thresholds (linear above a valid GPD threshold)
+    const meanExcess: MeanExcessPoint[] = [];
+    for (let q = 0.8; q <= 0.99 + 1e-9; q += 0.005) {
+      const u = quantile(losses, q);
+      const above = losses.filter(l => l > u);
+      if (above.length < 5) continue;
+      meanExcess.push({
+        threshold: u,
+        meanExcess: mean(above) - u,
+        exceedances: above.length
+      });
+    }
+    
+    return {
+      threshold,
+      thresholdQuantile,
+      exceedances: k,
+      sampleSize: n,
+      tailIndex: xi,
+      scale,
+      logLikelihood: -optimum.value,
+      converged: optimum.converged,
+      estimates,
+      meanExcess
+    };
+  }
+
+  // Expected Shortfall (Conditional VaR) from overlapping h-day returns
+  calculateExpectedShortfall(confidenceLevel: number, horizon: number = 1): number {
+    return this.tailMean(this.overlappingReturns(this.returns, horizon), confidenceLevel);
   }
 
-  // Expected Shortfall (Conditional VaR)
-  calculateExpectedShortfall(confidenceLevel: number): number {
-    const sortedReturns = [...this.returns].sort((a, b) => a - b);
-    const alpha = 1 - confidenceLevel;
-    const cutoff = Math.floor(alpha * sortedReturns.length);
+  // VaR and ES at several holding periods, computed consistently across methods
+  calculateHorizonRisk(
+    horizons: number[] = [1, 5, 10, 21],
+    confidenceLevel: number = 0.99,
+    simulations: number = 10000,
+    options: MonteCarloOptions = {}
+  ): HorizonRisk[] {
+    const meanReturn = mean(this.returns);
+    const stdDev = standardDeviation(this.returns);
+    const z = this.inverseNormal(1 - confidenceLevel);
+    const tailDensity = Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
     
-    const tailReturns = sortedReturns.slice(0, cutoff);
-    return -mean(tailReturns);
+    return horizons.map(horizon => {
+      const simulation = this.monteCarloSimulation(1, horizon, simulations, 0, options);
+      const simulatedReturns = simulation.scenarios.map(price => price - 1);
+      
+      return {
+        horizon,
+        confidenceLevel,
+        historical: {
+          var: this.calculateVaR(confidenceLevel, horizon, 'historical'),
+          expectedShortfall: this.calculateExpectedShortfall(confidenceLevel, horizon)
+        },
+        parametric: {
+          var: this.calculateVaR(confidenceLevel, horizon, 'parametric'),
+          expectedShortfall: -meanReturn * horizon + stdDev * Math.sqrt(horizon) * tailDensity / (1 - confidenceLevel)
+        },
+        monteCarlo: {
+          var: -simulatedReturns[Math.floor((1 - confidenceLevel) * simulatedReturns.length)],
+          expectedShortfall: this.tailMean(simulatedReturns, confidenceLevel)
+        }
+      };
+    });
   }
 
   // Monte Carlo simulation for price paths
@@ -148,33 +813,147 @@ export class AdvancedRiskEngine {
     currentPrice: number,
     days: number,
     simulations: number = 10000,
-    targetDecline: number
+    targetDecline: number,
+    options: MonteCarloOptions = {}
   ): MonteCarloResult {
     const mu = mean(this.returns);
-    const sigma = standardDeviation(this.returns);
-    const dt = 1 / 252; // Daily time step
+    const sampleVariance = variance(this.returns);
+    
+    // Daily variance for each step, horizon-consistent when a volatility forecast is supplied
+    const forecast = options.volatilityForecast;
+    const dailyVariances = Array.from({ length: days }, (_, day) =>
+      forecast && forecast.length > 0
+        ? forecast[Math.min(day, forecast.length - 1)].dailyVariance
+        : sampleVariance
+    );
+    
+    const process = options.process || 'gbm';
+    const jumps = process === 'merton-jump' ? this.estimateJumpParameters() : null;
+    const degreesOfFreedom = process === 'student-t' ? this.estimateStudentTDegreesOfFreedom() : 0;
     
+    // Merton: the diffusion carries the non-jump share of variance and the compensator
+    // keeps expected growth equal to GBM's
+    const diffusionShare = jumps ? Math.min(1, Math.pow(jumps.diffusionVolatility, 2) / sampleVariance) : 1;
+    const jumpCompensator = jumps
+      ? jumps.intensity * (Math.exp(jumps.jumpMean + 0.5 * Math.pow(jumps.jumpVolatility, 2)) - 1)
+      : 0;
+    
+    // Bootstraps resample historical log returns; the stationary block bootstrap starts a
+    // new block with probability 1 / meanBlockLength to preserve volatility clustering
+    const historicalReturns = this.logReturns;
+    const bootstrap = process === 'historical-bootstrap' || process === 'block-bootstrap';
+    const restartProbability = process === 'block-bootstrap' ? 1 / Math.max(1, options.meanBlockLength ?? 10) : 1;
+    
+    // Variance reduction acts on the normal drivers: antithetic pairs negate them, Sobol replicates
+    // stratify them through a Brownian bridge. Standard errors are taken across independent units.
+    const sampling: MonteCarloSampling = bootstrap ? 'pseudo-random' : options.sampling || 'pseudo-random';
+    const sobolReplicates = sampling === 'sobol' ? Math.min(16, simulations) : 1;
+    const replicateSize = Math.ceil(simulations / sobolReplicates);
+    const sobol = sampling === 'sobol' ? new SobolSequence(Math.min(days, SobolSequence.MAX_DIMENSIONS)) : null;
+    const bridge = sampling === 'sobol' ? this.brownianBridge(dailyVariances) : null;
+    const unitOf = (sim: number) =>
+      sampling === 'antithetic' ? Math.floor(sim / 2) : sampling === 'sobol' ? Math.floor(sim / replicateSize) : sim;
+    
+    // Control variate: a GBM path driven by the same normals, whose terminal law is known in closed form
+    const useControlVariate = !bootstrap && options.controlVariate === true;
+    const targetLogReturn = targetDecline < 1 ? Math.log(1 - targetDecline) : -Infinity;
+    const gbmDrift = dailyVariances.reduce((sum, v) => sum + mu - 0.5 * v, 0);
+    const gbmVariance = dailyVariances.reduce((sum, v) => sum + v, 0);
+    const analyticProbability = isFinite(targetLogReturn)
+      ? this.normalCDF((targetLogReturn - gbmDrift) / Math.sqrt(gbmVariance))
+      : 0;
+    
+    const random = new SeededRandom(options.seed);
+    const targetPrice = currentPrice * (1 - targetDecline);
+    const samplePathCount = Math.min(options.samplePathCount ?? 100, simulations);
     const finalPrices: number[] = [];
+    const maxDrawdowns: number[] = [];
+    const samplePaths: number[][] = [];
+    const hitTimes: number[] = [];
+    const terminalIndicators: number[] = [];
+    const hitIndicators: number[] = [];
+    const controlIndicators: number[] = [];
+    let previousShocks: number[] = [];
     
     for (let sim = 0; sim < simulations; sim++) {
       let price = currentPrice;
+      let peak = currentPrice;
+      let maxDrawdown = 0;
+      let hitTime = 0;
+      let controlLogReturn = 0;
+      const path = sim < samplePathCount ? [currentPrice] : null;
+      let historicalIndex = 0;
+      
+      let shocks: number[] = [];
+      if (!bootstrap) {
+        if (sampling === 'antithetic' && sim % 2 === 1) {
+          shocks = previousShocks.map(z => -z);
+        } else if (sobol && bridge) {
+          if (sim % replicateSize === 0) sobol.reset(random);
+          const point = sobol.next();
+          shocks = bridge(Array.from({ length: days }, (_, k) =>
+            k < point.length ? this.inverseNormal(point[k]) : random.nextNormal()
+          ));
+        } else {
+          shocks = Array.from({ length: days }, () => random.nextNormal());
+        }
+        previousShocks = shocks;
+      }
       
       for (let day = 0; day < days; day++) {
-        const randomShock = this.boxMullerRandom();
-        const drift = (mu - 0.5 * sigma * sigma) * dt;
-        const diffusion = sigma * Math.sqrt(dt) * randomShock;
+        let logReturn: number;
+        
+        if (bootstrap) {
+          historicalIndex = day === 0 || random.next() < restartProbability
+            ? Math.floor(random.next() * historicalReturns.length)
+            : (historicalIndex + 1) % historicalReturns.length;
+          logReturn = historicalReturns[historicalIndex];
+        } else {
+          const diffusionVariance = dailyVariances[day] * diffusionShare;
+          // Student-t shocks scale the normal driver by an independent chi-square mixing variable
+          const randomShock = process === 'student-t'
+            ? random.nextStudentT(degreesOfFreedom, shocks[day])
+            : shocks[day];
+          const drift = mu - 0.5 * diffusionVariance - jumpCompensator;
+          const diffusion = Math.sqrt(diffusionVariance) * randomShock;
+          
+          let jump = 0;
+          if (jumps) {
+            const jumpCount = random.nextPoisson(jumps.intensity);
+            for (let j = 0; j < jumpCount; j++) {
+              jump += jumps.jumpMean + jumps.jumpVolatility * random.nextNormal();
+            }
+          }
+          
+          logReturn = drift + diffusion + jump;
+          controlLogReturn += mu - 0.5 * dailyVariances[day] + Math.sqrt(dailyVariances[day]) * shocks[day];
+        }
         
-        price *= Math.exp(drift + diffusion);
+        price *= Math.exp(logReturn);
+        
+        peak = Math.max(peak, price);
+        maxDrawdown = Math.max(maxDrawdown, (peak - price) / peak);
+        if (hitTime === 0 && price < targetPrice) hitTime = day + 1;
+        if (path) path.push(price);
       }
       
       finalPrices.push(price);
+      maxDrawdowns.push(maxDrawdown);
+      if (hitTime > 0) hitTimes.push(hitTime);
+      if (path) samplePaths.push(path);
+      terminalIndicators.push(price < targetPrice ? 1 : 0);
+      hitIndicators.push(hitTime > 0 ? 1 : 0);
+      controlIndicators.push(controlLogReturn < targetLogReturn ? 1 : 0);
     }
     
     finalPrices.sort((a, b) => a - b);
+    maxDrawdowns.sort((a, b) => a - b);
     
-    const targetPrice = currentPrice * (1 - targetDecline);
-    const belowTarget = finalPrices.filter(p => p < targetPrice).length;
-    const probability = belowTarget / simulations;
+    const units = terminalIndicators.map((_, sim) => unitOf(sim));
+    const control = useControlVariate ? { values: controlIndicators, expectation: analyticProbability } : null;
+    const terminal = this.estimateProbability(terminalIndicators, units, control);
+    const hit = this.estimateProbability(hitIndicators, units, control);
+    const probability = terminal.probability;
     
     return {
       scenarios: finalPrices,
@@ -191,10 +970,95 @@ export class AdvancedRiskEngine {
       },
       expectedReturn: mean(finalPrices),
       worstCase: finalPrices[0],
-      bestCase: finalPrices[finalPrices.length - 1]
+      bestCase: finalPrices[finalPrices.length - 1],
+      seed: random.seed,
+      process,
+      pathStatistics: {
+        hitProbability: hit.probability,
+        hitProbabilityStandardError: hit.standardError,
+        expectedTimeToHit: hitTimes.length > 0 ? mean(hitTimes) : null,
+        maxDrawdowns,
+        maxDrawdownMean: mean(maxDrawdowns),
+        maxDrawdownMedian: maxDrawdowns[Math.floor(0.5 * simulations)],
+        maxDrawdown95: maxDrawdowns[Math.floor(0.95 * simulations)],
+        maxDrawdown99: maxDrawdowns[Math.floor(0.99 * simulations)]
+      },
+      samplePaths,
+      probabilityStandardErrors: [terminal.standardError, terminal.standardError],
+      varianceReduction: {
+        sampling,
+        controlVariate: useControlVariate,
+        analyticProbability: bootstrap ? null : analyticProbability,
+        controlCoefficient: useControlVariate ? terminal.controlCoefficient : null,
+        independentUnits: unitOf(simulations - 1) + 1
+      }
+    };
+  }
+
+  // Decline probability under GBM versus the fat-tailed and empirical processes, on common random numbers
+  compareMonteCarloProcesses(
+    currentPrice: number,
+    days: number,
+    simulations: number = 10000,
+    targetDecline: number,
+    options: MonteCarloOptions = {}
+  ): MonteCarloProcessComparison {
+    const seed = options.seed ?? SeededRandom.generateSeed();
+    const processTypes: MonteCarloProcess[] = ['gbm', 'merton-jump', 'student-t', 'historical-bootstrap', 'block-bootstrap'];
+    const results = processTypes.map(process =>
+      this.monteCarloSimulation(currentPrice, days, simulations, targetDecline, { ...options, seed, process })
+    );
+    const gbmProbability = results[0].probabilities[0];
+    
+    return {
+      seed,
+      targetDecline,
+      processes: results.map(result => ({
+        process: result.process,
+        declineProbability: result.probabilities[0],
+        changeFromGBM: result.probabilities[0] - gbmProbability,
+        result
+      }))
     };
   }
 
+  // Threshold jump detection: returns beyond `threshold` standard deviations of the
+  // remaining (non-jump) returns are treated as jumps, iterated until the set is stable
+  estimateJumpParameters(threshold: number = 3): JumpDiffusionParameters {
+    const logReturns = this.logReturns;
+    let isJump = logReturns.map(() => false);
+    let center = mean(logReturns);
+    let diffusionVolatility = standardDeviation(logReturns);
+    
+    for (let iteration = 0; iteration < 20; iteration++) {
+      const continuous = logReturns.filter((_, i) => !isJump[i]);
+      center = mean(continuous);
+      diffusionVolatility = standardDeviation(continuous);
+      
+      const next = logReturns.map(r => Math.abs(r - center) > threshold * diffusionVolatility);
+      const changed = next.some((flag, i) => flag !== isJump[i]);
+      isJump = next;
+      if (!changed) break;
+    }
+    
+    const jumpSizes = logReturns.filter((_, i) => isJump[i]).map(r => r - center);
+    
+    return {
+      intensity: jumpSizes.length / logReturns.length,
+      jumpMean: jumpSizes.length > 0 ? mean(jumpSizes) : 0,
+      jumpVolatility: jumpSizes.length > 1 ? standardDeviation(jumpSizes) : 0,
+      diffusionVolatility,
+      jumpCount: jumpSizes.length
+    };
+  }
+
+  // Method of moments: excess kurtosis of a Student-t is 6 / (nu - 4)
+  estimateStudentTDegreesOfFreedom(): number {
+    const excessKurtosis = this.calculateKurtosis(this.returns);
+    if (excessKurtosis <= 0.06) return 104; // Effectively normal
+    return 4 + 6 / excessKurtosis;
+  }
+
   // Volume Profile Analysis
   calculateVolumeProfile(priceLevels: number = 100): VolumeProfile[] {
     const priceRange = Math.max(...this.data.map(d => d.high)) - Math.min(...this.data.map(d => d.low));
@@ -244,10 +1108,650 @@ export class AdvancedRiskEngine {
     }));
   }
 
+  // Volume-based liquidity: ADV, Amihud illiquidity, days to liquidate and square-root impact cost
+  // (Y x daily vol x sqrt(shares / ADV)); null when the window has no reported volume
+  calculateLiquidityRisk(options: LiquidityOptions): LiquidityAnalysis | null {
+    const window = Math.max(1, Math.min(options.window ?? 21, this.returns.length));
+    const participationRate = options.participationRate ?? 0.1;
+    const impactCoefficient = options.impactCoefficient ?? 1;
+    const start = this.data.length - window;
+    
+    const traded = this.data.slice(start).filter(bar => bar.volume > 0);
+    if (traded.length === 0) return null;
+    
+    const averageDailyVolume = mean(traded.map(bar => bar.volume));
+    const averageDailyDollarVolume = mean(traded.map(bar => bar.volume * bar.close));
+    
+    // returns[i] ends on data[i + 1]
+    const illiquidity: number[] = [];
+    for (let i = start; i < this.data.length; i++) {
+      const bar = this.data[i];
+      if (i > 0 && bar.volume > 0) illiquidity.push(Math.abs(this.returns[i - 1]) / (bar.volume * bar.close));
+    }
+    
+    const windowReturns = this.returns.slice(-window);
+    const dailyVolatility = windowReturns.length > 1 ? standardDeviation(windowReturns) : 0;
+    const positionShares = Math.abs(options.positionShares);
+    
+    return {
+      window,
+      tradingDays: traded.length,
+      averageDailyVolume,
+      averageDailyDollarVolume,
+      amihudIlliquidity: illiquidity.length > 0 ? mean(illiquidity) * 1e6 : 0,
+      positionShares,
+      positionValue: positionShares * this.data[this.data.length - 1].close,
+      participationRate,
+      daysToLiquidate: positionShares / (participationRate * averageDailyVolume),
+      dailyVolatility,
+      impactCost: impactCoefficient * dailyVolatility * Math.sqrt(positionShares / averageDailyVolume)
+    };
+  }
+
+  // Drawdown episodes, underwater curve and drawdown-based risk measures from the close series
+  calculateDrawdowns(topN: number = 5, confidenceLevel: number = 0.95): DrawdownAnalysis {
+    const underwater = this.calculateUnderwaterCurve();
+    const depths = underwater.map(point => -point.drawdown);
+    const lastIndex = underwater.length - 1;
+    
+    // Each episode runs from a running peak until the close first regains it
+    const episodes: DrawdownEpisode[] = [];
+    let peakIndex = 0;
+    let troughIndex = 0;
+    for (let i = 1; i <= lastIndex; i++) {
+      if (depths[i] === 0) {
+        if (i - peakIndex > 1) episodes.push(this.drawdownEpisode(underwater, peakIndex, troughIndex, i));
+        peakIndex = i;
+        troughIndex = i;
+      } else if (depths[i] > depths[troughIndex]) {
+        troughIndex = i;
+      }
+    }
+    if (peakIndex < lastIndex) episodes.push(this.drawdownEpisode(underwater, peakIndex, troughIndex, null));
+    episodes.sort((a, b) => b.depth - a.depth);
+    
+    const maxDrawdown = Math.max(0, ...depths);
+    const annualizedReturn = this.calculateAnnualizedReturn();
+    const sortedDepths = [...depths].sort((a, b) => b - a);
+    const tailCount = Math.max(1, Math.ceil((1 - confidenceLevel) * sortedDepths.length));
+    
+    return {
+      episodes: episodes.slice(0, topN),
+      underwater,
+      maxDrawdown,
+      currentDrawdown: depths[lastIndex],
+      calmarRatio: maxDrawdown > 0 ? annualizedReturn / maxDrawdown : 0,
+      ulcerIndex: Math.sqrt(mean(depths.map(d => d * d))),
+      painIndex: mean(depths),
+      conditionalDrawdownAtRisk: mean(sortedDepths.slice(0, tailCount)),
+      confidenceLevel
+    };
+  }
+
+  // Range-based realised volatility over the most recent `window` bars (whole history by default)
+  calculateRangeVolatility(window: number = this.data.length - 1): RangeVolatilityEstimates {
+    const bars = this.rangeVolatilityBars();
+    return this.rangeVolatility(bars, Math.max(0, bars.length - window), bars.length);
+  }
+
+  // Range-based estimators over a trailing window ending on each day
+  calculateRollingRangeVolatility(window: number = 21): RangeVolatilityPoint[] {
+    const bars = this.rangeVolatilityBars();
+    const points: RangeVolatilityPoint[] = [];
+    
+    for (let end = window; end <= bars.length; end++) {
+      points.push({ date: bars[end - 1].date, ...this.rangeVolatility(bars, end - window, end) });
+    }
+    
+    return points;
+  }
+
+  // Distribution of realised volatility over overlapping windows of each horizon, with today's value
+  calculateVolatilityCone(horizons: number[] = [5, 10, 21, 63, 126, 252]): VolatilityConePoint[] {
+    const logReturns = this.getLogReturns();
+    
+    // Prefix sums give each window's variance in O(1)
+    const sums = [0];
+    const squares = [0];
+    logReturns.forEach((r, i) => {
+      sums.push(sums[i] + r);
+      squares.push(squares[i] + r * r);
+    });
+    
+    return horizons
+      .filter(horizon => horizon >= 2 && horizon <= logReturns.length)
+      .map(horizon => {
+        const volatilities: number[] = [];
+        for (let end = horizon; end <= logReturns.length; end++) {
+          const sum = sums[end] - sums[end - horizon];
+          const sumSquares = squares[end] - squares[end - horizon];
+          const windowVariance = Math.max(0, (sumSquares - sum * sum / horizon) / (horizon - 1));
+          volatilities.push(Math.sqrt(windowVariance * 252));
+        }
+        
+        const current = volatilities[volatilities.length - 1];
+        const sorted = [...volatilities].sort((a, b) => a - b);
+        return {
+          horizon,
+          min: sorted[0],
+          percentile25: quantile(sorted, 0.25),
+          median: quantile(sorted, 0.5),
+          percentile75: quantile(sorted, 0.75),
+          max: sorted[sorted.length - 1],
+          current,
+          percentileRank: volatilities.filter(v => v < current).length / volatilities.length,
+          windows: volatilities.length
+        };
+      });
+  }
+
+  // Gaussian hidden Markov model on daily log returns fitted by Baum-Welch (EM)
+  fitRegimeModel(states: number = 2, maxIterations: number = 300, tolerance: number = 1e-6): RegimeModel {
+    const returns = this.getLogReturns();
+    const k = Math.max(2, Math.min(3, Math.round(states)));
+    const sampleMean = mean(returns);
+    const sampleVariance = variance(returns);
+    const varianceFloor = sampleVariance * 1e-3;
+    
+    // Start from a common mean with volatilities spread around the sample value and sticky regimes
+    const spread = k === 2 ? [0.6, 1.6] : [0.5, 1, 2];
+    let parameters: RegimeParameters = {
+      initial: new Array(k).fill(1 / k),
+      transition: Array.from({ length: k }, (_, i) =>
+        Array.from({ length: k }, (_, j) => (i === j ? 0.95 : 0.05 / (k - 1)))
+      ),
+      means: new Array(k).fill(sampleMean),
+      variances: spread.map(s => sampleVariance * s * s)
+    };
+    
+    let pass = this.regimeForwardBackward(returns, parameters);
+    let iterations = 0;
+    let converged = false;
+    
+    while (iterations < maxIterations) {
+      iterations++;
+      
+      // M-step: re-estimate from the smoothed state and transition probabilities
+      const weights = Array.from({ length: k }, (_, j) => pass.smoothed.reduce((sum, p) => sum + p[j], 0));
+      const means = weights.map((w, j) =>
+        w > 0 ? pass.smoothed.reduce((sum, p, t) => sum + p[j] * returns[t], 0) / w : parameters.means[j]
+      );
+      parameters = {
+        initial: pass.smoothed[0].slice(),
+        transition: pass.transitions.map((row, i) => {
+          const total = row.reduce((sum, x) => sum + x, 0);
+          return total > 0 ? row.map(x => x / total) : parameters.transition[i];
+        }),
+        means,
+        variances: weights.map((w, j) =>
+          w > 0
+            ? Math.max(varianceFloor, pass.smoothed.reduce((sum, p, t) => sum + p[j] * (returns[t] - means[j]) ** 2, 0) / w)
+            : parameters.variances[j]
+        )
+      };
+      
+      const previous = pass.logLikelihood;
+      pass = this.regimeForwardBackward(returns, parameters);
+      if (Math.abs(pass.logLikelihood - previous) < tolerance * Math.max(1, Math.abs(previous))) {
+        converged = true;
+        break;
+      }
+    }
+    
+    // Relabel states by increasing volatility
+    const order = parameters.variances.map((v, j) => j).sort((a, b) => parameters.variances[a] - parameters.variances[b]);
+    const transitionMatrix = order.map(i => order.map(j => parameters.transition[i][j]));
+    const reorder = (probabilities: number[]) => order.map(j => probabilities[j]);
+    const argMax = (values: number[]) => values.reduce((best, v, j) => (v > values[best] ? j : best), 0);
+    
+    // Stationary distribution by power iteration
+    let stationary = new Array(k).fill(1 / k);
+    for (let n = 0; n < 1000; n++) {
+      stationary = stationary.map((_, j) => stationary.reduce((sum, p, i) => sum + p * transitionMatrix[i][j], 0));
+    }
+    
+    const volatilityNames = k === 2 ? ['LOW VOL', 'HIGH VOL'] : ['LOW VOL', 'NORMAL VOL', 'HIGH VOL'];
+    const regimeStates: RegimeState[] = order.map((j, rank) => {
+      const annualMean = parameters.means[j] * 252;
+      const persistence = transitionMatrix[rank][rank];
+      return {
+        label: `${annualMean >= 0 ? 'BULL' : 'BEAR'} (${volatilityNames[rank]})`,
+        mean: annualMean,
+        volatility: Math.sqrt(parameters.variances[j] * 252),
+        stationaryProbability: stationary[rank],
+        expectedDuration: persistence < 1 ? 1 / (1 - persistence) : Infinity
+      };
+    });
+    
+    const currentProbabilities = reorder(pass.filtered[pass.filtered.length - 1]);
+    const nextDayProbabilities = currentProbabilities.map((_, j) =>
+      currentProbabilities.reduce((sum, p, i) => sum + p * transitionMatrix[i][j], 0)
+    );
+    
+    // Means, variances, free transition probabilities and free initial probabilities
+    const parameterCount = 2 * k + k * (k - 1) + (k - 1);
+    
+    return {
+      states: regimeStates,
+      transitionMatrix,
+      currentState: argMax(currentProbabilities),
+      currentProbabilities,
+      nextDayProbabilities,
+      path: pass.smoothed.map((p, t) => {
+        const probabilities = reorder(p);
+        return { date: this.data[t + 1].date, close: this.data[t + 1].close, state: argMax(probabilities), probabilities };
+      }),
+      logLikelihood: pass.logLikelihood,
+      aic: 2 * parameterCount - 2 * pass.logLikelihood,
+      bic: parameterCount * Math.log(returns.length) - 2 * pass.logLikelihood,
+      iterations,
+      converged
+    };
+  }
+
+  // Structural breaks in the mean and variance of log returns: PELT segmentation plus CUSUM tests.
+  // The default penalty is BIC-style, inflated by the long-run variance of squared returns over its
+  // iid Gaussian value so neither fat tails nor volatility clustering alone read as breaks
+  detectChangePoints(minSegmentLength: number = 63, penalty?: number): ChangePointAnalysis {
+    const returns = this.getLogReturns();
+    const n = returns.length;
+    const dependenceAdjustment = Math.max(1, this.squaredReturnLongRunRatio(returns));
+    penalty = penalty ?? 3 * Math.log(Math.max(2, n)) * dependenceAdjustment;
+    const date = (index: number) => this.data[index + 1].date;
+    
+    const sums = [0];
+    const squares = [0];
+    returns.forEach((r, i) => {
+      sums.push(sums[i] + r);
+      squares.push(squares[i] + r * r);
+    });
+    const varianceFloor = Math.max(1e-12, variance(returns) * 1e-4);
+    
+    // Twice the negative Gaussian log-likelihood of returns (start, end] at their own mean and variance
+    const cost = (start: number, end: number) => {
+      const length = end - start;
+      const sum = sums[end] - sums[start];
+      const segmentVariance = Math.max(varianceFloor, (squares[end] - squares[start] - sum * sum / length) / length);
+      return length * (Math.log(2 * Math.PI * segmentVariance) + 1);
+    };
+    
+    // PELT: optimal partitioning with pruning of candidates that can no longer start the last segment
+    const best = new Array(n + 1).fill(Infinity);
+    const previous = new Array(n + 1).fill(0);
+    best[0] = -penalty;
+    let candidates = [0];
+    
+    for (let end = minSegmentLength; end <= n; end++) {
+      const totals = candidates.map(start =>
+        end - start >= minSegmentLength ? best[start] + cost(start, end) : Infinity
+      );
+      totals.forEach((total, i) => {
+        if (total + penalty < best[end]) {
+          best[end] = total + penalty;
+          previous[end] = candidates[i];
+        }
+      });
+      
+      // Too-recent candidates (infinite total) are kept until they become eligible
+      candidates = candidates.filter((start, i) => totals[i] === Infinity || totals[i] <= best[end]);
+      candidates.push(end);
+    }
+    
+    const boundaries: number[] = [];
+    for (let end = n; end > 0; end = previous[end]) boundaries.unshift(end);
+    const starts = [0, ...boundaries.slice(0, -1)];
+    
+    const segments: ReturnSegment[] = starts.map((start, i) => {
+      const end = boundaries[i];
+      const sample = returns.slice(start, end);
+      return {
+        startDate: date(start),
+        endDate: date(end - 1),
+        observations: end - start,
+        mean: mean(sample) * 252,
+        volatility: Math.sqrt(Math.max(0, (squares[end] - squares[start] - (sums[end] - sums[start]) ** 2 / sample.length) / sample.length) * 252)
+      };
+    });
+    
+    const lastStart = starts[starts.length - 1];
+    
+    return {
+      changePoints: starts.slice(1).map(date),
+      segments,
+      penalty,
+      minSegmentLength,
+      cusumMean: this.cusumTest(returns.map(r => r - sums[n] / n), date),
+      cusumVariance: this.cusumTest(returns.map(r => r * r - squares[n] / n), date),
+      lastBreakDate: lastStart > 0 ? date(lastStart) : null,
+      observationsSinceBreak: n - lastStart
+    };
+  }
+
+  // Hurst exponent of log returns: 0.5 random walk, above 0.5 persistent (trending), below anti-persistent
+  calculateHurstExponent(method: 'rs' | 'dfa' = 'dfa'): number {
+    const returns = this.getLogReturns();
+    const scales = this.logSpacedScales(10, Math.floor(returns.length / 4));
+    if (scales.length < 3) return 0.5;
+    
+    if (method === 'rs') {
+      // Slope of log(R/S) in excess of its expected value for independent returns
+      const points = scales.map(size => {
+        const ratios: number[] = [];
+        for (let start = 0; start + size <= returns.length; start += size) {
+          const chunk = returns.slice(start, start + size);
+          const chunkMean = mean(chunk);
+          let cumulative = 0, high = 0, low = 0;
+          chunk.forEach(r => {
+            cumulative += r - chunkMean;
+            high = Math.max(high, cumulative);
+            low = Math.min(low, cumulative);
+          });
+          const deviation = standardDeviation(chunk);
+          if (deviation > 0) ratios.push((high - low) / deviation);
+        }
+        return [Math.log(size), Math.log(mean(ratios)) - Math.log(this.expectedRescaledRange(size))];
+      });
+      return 0.5 + this.slope(points);
+    }
+    
+    // DFA-1: RMS of linearly detrended profile segments grows as scale^H
+    const returnMean = mean(returns);
+    const profile: number[] = [];
+    returns.reduce((sum, r) => {
+      profile.push(sum + r - returnMean);
+      return sum + r - returnMean;
+    }, 0);
+    
+    const points = scales.map(size => {
+      const xMean = (size - 1) / 2;
+      const xVariance = (size * size - 1) / 12;
+      const fluctuations: number[] = [];
+      for (let start = 0; start + size <= profile.length; start += size) {
+        const segment = profile.slice(start, start + size);
+        const yMean = mean(segment);
+        const trend = segment.reduce((sum, y, x) => sum + (x - xMean) * (y - yMean), 0) / size / xVariance;
+        fluctuations.push(segment.reduce((sum, y, x) => sum + (y - yMean - trend * (x - xMean)) ** 2, 0) / size);
+      }
+      return [Math.log(size), 0.5 * Math.log(mean(fluctuations))];
+    });
+    return this.slope(points);
+  }
+
+  // Lo-MacKinlay variance ratio test on overlapping q-day log returns
+  varianceRatioTest(lags: number[] = [2, 5, 10, 20]): VarianceRatioResult[] {
+    const returns = this.getLogReturns();
+    const n = returns.length;
+    const returnMean = mean(returns);
+    const deviations = returns.map(r => r - returnMean);
+    const squaredSum = deviations.reduce((sum, d) => sum + d * d, 0);
+    const dailyVariance = squaredSum / (n - 1);
+    
+    const sums = [0];
+    deviations.forEach((d, i) => sums.push(sums[i] + d));
+    
+    return lags.filter(q => q >= 2 && q < n / 2).map(q => {
+      let aggregated = 0;
+      for (let end = q; end <= n; end++) aggregated += (sums[end] - sums[end - q]) ** 2;
+      const ratio = aggregated / (q * (n - q + 1) * (1 - q / n)) / dailyVariance;
+      
+      // Heteroskedasticity-consistent asymptotic variance
+      let theta = 0;
+      for (let j = 1; j < q; j++) {
+        let delta = 0;
+        for (let t = j; t < n; t++) delta += deviations[t] ** 2 * deviations[t - j] ** 2;
+        theta += (2 * (q - j) / q) ** 2 * delta / (squaredSum * squaredSum) * n;
+      }
+      const zStatistic = theta > 0 ? (ratio - 1) / Math.sqrt(theta / n) : 0;
+      
+      return { lag: q, ratio, zStatistic, pValue: 2 * (1 - this.normalCDF(Math.abs(zStatistic))) };
+    });
+  }
+
+  // Augmented Dickey-Fuller test (constant, no trend) on log prices; the null is a unit root
+  adfTest(lags: number = Math.floor(12 * Math.pow(this.data.length / 100, 0.25))): StationarityTest {
+    const prices = this.data.map(bar => Math.log(bar.close));
+    const differences = prices.slice(1).map((p, i) => p - prices[i]);
+    
+    // Regress dy(t) on [1, y(t-1), dy(t-1) .. dy(t-lags)]
+    const rows: number[][] = [];
+    const targets: number[] = [];
+    for (let t = lags; t < differences.length; t++) {
+      const row = [1, prices[t]];
+      for (let i = 1; i <= lags; i++) row.push(differences[t - i]);
+      rows.push(row);
+      targets.push(differences[t]);
+    }
+    
+    const fit = this.ordinaryLeastSquares(rows, targets);
+    const n = targets.length;
+    const surface = (asymptotic: number, b1: number, b2: number, b3: number) =>
+      asymptotic + b1 / n + b2 / (n * n) + b3 / (n * n * n);
+    
+    // MacKinnon (2010) finite-sample critical values
+    const criticalValues = {
+      '1%': surface(-3.43035, -6.5393, -16.786, -79.433),
+      '5%': surface(-2.86154, -2.8903, -4.234, -40.04),
+      '10%': surface(-2.56677, -1.5384, -2.809, 0)
+    };
+    const statistic = fit.coefficients[1] / fit.standardErrors[1];
+    
+    return { statistic, criticalValues, lags, stationary: statistic < criticalValues['5%'] };
+  }
+
+  // KPSS test for level stationarity of log prices; the null is stationarity
+  kpssTest(lags: number = Math.floor(12 * Math.pow(this.data.length / 100, 0.25))): StationarityTest {
+    const prices = this.data.map(bar => Math.log(bar.close));
+    const n = prices.length;
+    const priceMean = mean(prices);
+    const residuals = prices.map(p => p - priceMean);
+    
+    let partialSum = 0;
+    let partialSumSquares = 0;
+    residuals.forEach(e => {
+      partialSum += e;
+      partialSumSquares += partialSum * partialSum;
+    });
+    
+    // Newey-West long-run variance with Bartlett weights
+    let longRunVariance = residuals.reduce((sum, e) => sum + e * e, 0) / n;
+    for (let j = 1; j <= lags; j++) {
+      let autocovariance = 0;
+      for (let t = j; t < n; t++) autocovariance += residuals[t] * residuals[t - j];
+      longRunVariance += 2 * (1 - j / (lags + 1)) * autocovariance / n;
+    }
+    
+    const statistic = partialSumSquares / (n * n * longRunVariance);
+    const criticalValues = { '1%': 0.739, '5%': 0.463, '10%': 0.347 };
+    
+    return { statistic, criticalValues, lags, stationary: statistic < criticalValues['5%'] };
+  }
+
+  // Discrete Ornstein-Uhlenbeck (AR(1)) fit of log prices: dy = a + b * y(t-1) + e, theta = -ln(1 + b)
+  estimateOrnsteinUhlenbeck(): OrnsteinUhlenbeckEstimate {
+    const prices = this.data.map(bar => Math.log(bar.close));
+    const lagged = prices.slice(0, -1);
+    const changes = prices.slice(1).map((p, i) => p - prices[i]);
+    
+    const b = this.calculateCovariance(lagged, changes) / this.calculateCovariance(lagged, lagged);
+    const a = mean(changes) - b * mean(lagged);
+    const residuals = changes.map((change, i) => change - a - b * lagged[i]);
+    const meanReverting = b < 0 && b > -1;
+    const speed = meanReverting ? -Math.log(1 + b) : 0;
+    const longRunMean = meanReverting ? -a / b : prices[prices.length - 1];
+    
+    return {
+      speed,
+      longRunMean,
+      equilibriumPrice: Math.exp(longRunMean),
+      halfLife: meanReverting ? Math.LN2 / speed : Infinity,
+      volatility: standardDeviation(residuals) * Math.sqrt(252)
+    };
+  }
+
+  // Classify the series as trending, mean-reverting or a random walk by majority of the diagnostics
+  calculatePersistenceDiagnostics(): PersistenceDiagnostics {
+    const hurstRS = this.calculateHurstExponent('rs');
+    const hurstDFA = this.calculateHurstExponent('dfa');
+    const varianceRatios = this.varianceRatioTest([2, 5, 10, 20]);
+    const adf = this.adfTest();
+    const kpss = this.kpssTest();
+    const ornsteinUhlenbeck = this.estimateOrnsteinUhlenbeck();
+    
+    // Formal tests (variance ratio, ADF with KPSS) carry two votes, each Hurst point estimate one
+    const trending: string[] = [];
+    const meanReverting: string[] = [];
+    let trendingVotes = 0;
+    let meanRevertingVotes = 0;
+    const vote = (value: number, label: string) => {
+      if (value > 0.55) {
+        trending.push(`${label} ${value.toFixed(2)} > 0.55`);
+        trendingVotes++;
+      } else if (value < 0.45) {
+        meanReverting.push(`${label} ${value.toFixed(2)} < 0.45`);
+        meanRevertingVotes++;
+      }
+    };
+    vote(hurstRS, 'Hurst (R/S)');
+    vote(hurstDFA, 'Hurst (DFA)');
+    
+    const tenDay = varianceRatios.find(result => result.lag === 10) || varianceRatios[varianceRatios.length - 1];
+    if (tenDay && tenDay.pValue < 0.05) {
+      const reason = `VR(${tenDay.lag}) ${tenDay.ratio.toFixed(2)}, p ${tenDay.pValue.toFixed(3)}`;
+      if (tenDay.ratio > 1) {
+        trending.push(reason);
+        trendingVotes += 2;
+      } else {
+        meanReverting.push(reason);
+        meanRevertingVotes += 2;
+      }
+    }
+    if (adf.stationary && kpss.stationary) {
+      meanReverting.push(`ADF rejects a unit root, KPSS accepts stationarity (half-life ${ornsteinUhlenbeck.halfLife.toFixed(0)}d)`);
+      meanRevertingVotes += 2;
+    }
+    
+    const classification: PersistenceRegime =
+      trendingVotes >= 2 && trendingVotes > meanRevertingVotes ? 'trending'
+        : meanRevertingVotes >= 2 && meanRevertingVotes > trendingVotes ? 'mean-reverting'
+          : 'random-walk';
+    
+    return {
+      hurstRS,
+      hurstDFA,
+      varianceRatios,
+      adf,
+      kpss,
+      ornsteinUhlenbeck,
+      classification,
+      evidence: classification === 'trending' ? trending : classification === 'mean-reverting' ? meanReverting : []
+    };
+  }
+
+  // Risk metrics re-estimated over trailing windows so recent conditions are not diluted by old history
+  calculateRollingMetrics(
+    windows: number[] = [21, 63, 252],
+    benchmarkData?: MarketData[],
+    confidenceLevel: number = 0.95
+  ): RollingMetricsSeries[] {
+    const returns = this.returns;
+    const benchmarkReturns = benchmarkData ? this.alignBenchmarkReturns(benchmarkData) : null;
+    const excessReturns = this.calculateExcessReturns();
+    
+    return windows.map(window => {
+      const points: RollingMetricPoint[] = [];
+      
+      for (let end = window; end <= returns.length; end++) {
+        const sample = returns.slice(end - window, end);
+        const stdDev = standardDeviation(sample);
+        
+        let beta: number | null = null;
+        if (benchmarkReturns) {
+          const pairs = sample
+            .map((r, i) => [r, benchmarkReturns[end - window + i]])
+            .filter((pair): pair is [number, number] => pair[1] !== null);
+          if (pairs.length >= Math.max(3, window / 2)) {
+            const benchmarkSample = pairs.map(pair => pair[1]);
+            const benchmarkVariance = this.calculateCovariance(benchmarkSample, benchmarkSample);
+            beta = benchmarkVariance > 0
+              ? this.calculateCovariance(pairs.map(pair => pair[0]), benchmarkSample) / benchmarkVariance
+              : null;
+          }
+        }
+        
+        points.push({
+          date: this.data[end].date,
+          volatility: stdDev * Math.sqrt(252),
+          var: this.estimateVaR(sample, confidenceLevel, 1, 'historical'),
+          beta,
+          sharpeRatio: stdDev > 0 ? mean(excessReturns.slice(end - window, end)) / stdDev * Math.sqrt(252) : 0,
+          skewness: stdDev > 0 ? this.calculateSkewness(sample) : 0,
+          kurtosis: stdDev > 0 ? this.calculateKurtosis(sample) : 0
+        });
+      }
+      
+      return { window, confidenceLevel, points };
+    });
+  }
+
+  // OLS regression of daily returns on benchmark returns matched by date
+  calculateBenchmarkRegression(benchmarkData: MarketData[]): BenchmarkRegression | null {
+    const aligned = this.alignBenchmarkReturns(benchmarkData);
+    const y: number[] = [];
+    const x: number[] = [];
+    aligned.forEach((benchmarkReturn, i) => {
+      if (benchmarkReturn !== null) {
+        y.push(this.returns[i]);
+        x.push(benchmarkReturn);
+      }
+    });
+    
+    const n = x.length;
+    if (n < 3) return null;
+    
+    const meanX = mean(x);
+    const meanY = mean(y);
+    const sxx = x.reduce((sum, xi) => sum + (xi - meanX) * (xi - meanX), 0);
+    const syy = y.reduce((sum, yi) => sum + (yi - meanY) * (yi - meanY), 0);
+    const sxy = x.reduce((sum, xi, i) => sum + (xi - meanX) * (y[i] - meanY), 0);
+    if (sxx === 0) return null;
+    
+    const beta = sxy / sxx;
+    const alpha = meanY - beta * meanX;
+    const residualVariance = Math.max(0, syy - beta * sxy) / (n - 2);
+    const correlation = syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+    
+    const activeReturns = y.map((yi, i) => yi - x[i]);
+    const trackingError = standardDeviation(activeReturns) * Math.sqrt(252);
+    
+    const capture = (selector: (benchmarkReturn: number) => boolean) => {
+      const days = x.map((xi, i) => i).filter(i => selector(x[i]));
+      if (days.length === 0) return 0;
+      const benchmarkMean = mean(days.map(i => x[i]));
+      return benchmarkMean !== 0 ? mean(days.map(i => y[i])) / benchmarkMean : 0;
+    };
+    
+    return {
+      observations: n,
+      beta,
+      alpha: alpha * 252,
+      betaStandardError: Math.sqrt(residualVariance / sxx),
+      alphaStandardError: Math.sqrt(residualVariance * (1 / n + meanX * meanX / sxx)) * 252,
+      rSquared: correlation * correlation,
+      correlation,
+      trackingError,
+      informationRatio: trackingError > 0 ? mean(activeReturns) * 252 / trackingError : 0,
+      upCapture: capture(r => r > 0),
+      downCapture: capture(r => r < 0)
+    };
+  }
+
   // Advanced risk metrics calculation
-  calculateAdvancedRiskMetrics(benchmarkReturns?: number[]): RiskMetrics {
+  calculateAdvancedRiskMetrics(
+    benchmarkData?: MarketData[],
+    varMethod: VaRMethod = 'historical',
+    sharpeTrials: number = 10
+  ): RiskMetrics {
     const returns = this.returns;
-    const meanReturn = mean(returns);
     const vol = standardDeviation(returns);
     
     // Skewness calculation
@@ -256,46 +1760,410 @@ export class AdvancedRiskEngine {
     // Kurtosis calculation
     const kurtosis = this.calculateKurtosis(returns);
     
-    // Sharpe ratio (assuming risk-free rate of 2%)
-    const riskFreeRate = 0.02 / 252; // Daily risk-free rate
-    const excessReturns = returns.map(r => r - riskFreeRate);
-    const sharpeRatio = mean(excessReturns) / standardDeviation(excessReturns);
+    // Sharpe ratio on returns in excess of the (possibly time-varying) risk-free rate
+    const excessReturns = this.calculateExcessReturns();
+    const meanExcess = mean(excessReturns);
+    const sharpeRatio = meanExcess / standardDeviation(excessReturns);
     
-    // Maximum drawdown
-    const maxDrawdown = this.calculateMaxDrawdown();
+    // Sortino and Omega use the risk-free rate as the minimum acceptable return
+    const downsideDeviation = Math.sqrt(mean(excessReturns.map(e => Math.pow(Math.min(e, 0), 2))));
+    const upside = excessReturns.reduce((sum, e) => sum + Math.max(e, 0), 0);
+    const downside = excessReturns.reduce((sum, e) => sum + Math.max(-e, 0), 0);
+    const losses = returns.reduce((sum, r) => sum + Math.max(-r, 0), 0);
     
-    // Beta and Alpha (if benchmark provided)
-    let beta = 1;
-    let alpha = 0;
+    // Drawdown-based ratios
+    const drawdowns = this.calculateDrawdowns(5);
+    const maxDrawdown = drawdowns.maxDrawdown;
+    const averageDeepDrawdown = drawdowns.episodes.length > 0 ? mean(drawdowns.episodes.map(e => e.depth)) : 0;
+    const annualizedReturn = this.calculateAnnualizedReturn();
     
-    if (benchmarkReturns && benchmarkReturns.length === returns.length) {
-      const covariance = this.calculateCovariance(returns, benchmarkReturns);
-      const benchmarkVariance = variance(benchmarkReturns);
-      beta = covariance / benchmarkVariance;
-      alpha = meanReturn - beta * mean(benchmarkReturns);
-    }
+    // Beta and Alpha from the date-aligned benchmark regression (market-neutral defaults without one)
+    const benchmark = benchmarkData ? this.calculateBenchmarkRegression(benchmarkData) : null;
     
     return {
-      var95: this.calculateVaR(0.95),
-      var99: this.calculateVaR(0.99),
+      var95: this.calculateVaR(0.95, 1, varMethod),
+      var99: this.calculateVaR(0.99, 1, varMethod),
+      varMethod,
       expectedShortfall95: this.calculateExpectedShortfall(0.95),
       expectedShortfall99: this.calculateExpectedShortfall(0.99),
       volatility: vol * Math.sqrt(252), // Annualized
       skewness,
       kurtosis,
       sharpeRatio: sharpeRatio * Math.sqrt(252), // Annualized
+      sortinoRatio: downsideDeviation > 0 ? meanExcess / downsideDeviation * Math.sqrt(252) : 0,
+      omegaRatio: downside > 0 ? upside / downside : Infinity,
+      treynorRatio: benchmark && benchmark.beta !== 0 ? meanExcess * 252 / benchmark.beta : null,
+      calmarRatio: drawdowns.calmarRatio,
+      sterlingRatio: averageDeepDrawdown > 0 ? annualizedReturn / averageDeepDrawdown : 0,
+      gainPainRatio: losses > 0 ? returns.reduce((sum, r) => sum + r, 0) / losses : Infinity,
+      probabilisticSharpeRatio: this.probabilisticSharpeRatio(sharpeRatio, excessReturns, 0),
+      deflatedSharpeRatio: this.probabilisticSharpeRatio(
+        sharpeRatio,
+        excessReturns,
+        this.expectedMaxSharpe(sharpeRatio, excessReturns, sharpeTrials)
+      ),
+      sharpeTrials,
+      riskFreeRate: mean(this.returns.map((_, i) => this.riskFreeRate.annualRate(this.data[i + 1].date))),
       maxDrawdown,
-      beta,
-      alpha: alpha * 252 // Annualized
+      beta: benchmark ? benchmark.beta : 1,
+      alpha: benchmark ? benchmark.alpha : 0, // Annualized
+      benchmark
     };
   }
 
   // Helper methods
-  private boxMullerRandom(): number {
-    let u = 0, v = 0;
-    while (u === 0) u = Math.random();
-    while (v === 0) v = Math.random();
-    return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+  private estimateVaR(
+    returns: number[],
+    confidenceLevel: number,
+    horizon: number = 1,
+    method: Exclude<VaRMethod, 'filtered-historical'> = 'historical'
+  ): number {
+    if (method === 'historical') {
+      const sortedReturns = this.overlappingReturns(returns, horizon).sort((a, b) => a - b);
+      const index = Math.floor((1 - confidenceLevel) * sortedReturns.length);
+      return -sortedReturns[index];
+    }
+    
+    const meanReturn = mean(returns);
+    const stdDev = standardDeviation(returns);
+    const z = this.inverseNormal(1 - confidenceLevel); // Lower-tail quantile
+    
+    if (method === 'cornish-fisher') {
+      // Modified VaR: expand the normal quantile with skewness S and excess kurtosis K
+      const S = this.calculateSkewness(returns);
+      const K = this.calculateKurtosis(returns);
+      const zCF = z +
+        (z * z - 1) * S / 6 +
+        (Math.pow(z, 3) - 3 * z) * K / 24 -
+        (2 * Math.pow(z, 3) - 5 * z) * S * S / 36;
+      return -(meanReturn * horizon + zCF * stdDev * Math.sqrt(horizon));
+    }
+    
+    return -(meanReturn * horizon + z * stdDev * Math.sqrt(horizon));
+  }
+
+  // Liquidity analysis for LVaR, which cannot be estimated without volume
+  private requireLiquidity(options: LiquidityOptions): LiquidityAnalysis {
+    const liquidity = this.calculateLiquidityRisk(options);
+    if (!liquidity) throw new Error('Liquidity-adjusted VaR requires volume data');
+    return liquidity;
+  }
+
+  // Compounded returns over every overlapping window of `horizon` days
+  private overlappingReturns(returns: number[], horizon: number): number[] {
+    if (horizon <= 1) return returns.slice();
+    
+    const windowReturns: number[] = [];
+    for (let i = 0; i + horizon <= returns.length; i++) {
+      let growth = 1;
+      for (let j = i; j < i + horizon; j++) {
+        growth *= 1 + returns[j];
+      }
+      windowReturns.push(growth - 1);
+    }
+    return windowReturns;
+  }
+
+  // Average loss beyond the VaR quantile
+  private tailMean(returns: number[], confidenceLevel: number): number {
+    const sortedReturns = [...returns].sort((a, b) => a - b);
+    const cutoff = Math.max(1, Math.floor((1 - confidenceLevel) * sortedReturns.length));
+    return -mean(sortedReturns.slice(0, cutoff));
+  }
+
+  private filteredHistoricalVaR(confidenceLevel: number, horizon: number, fit: GARCHResult): number {
+    const meanReturn = mean(this.returns);
+    const standardizedResiduals = this.returns
+      .map((r, i) => (r - meanReturn) / fit.volatility[i])
+      .sort((a, b) => a - b);
+    const index = Math.floor((1 - confidenceLevel) * standardizedResiduals.length);
+    const horizonVariance = this.forecastVolatilityTermStructure(horizon, fit)[horizon - 1].cumulativeVariance;
+    
+    return -(meanReturn * horizon + standardizedResiduals[index] * Math.sqrt(horizonVariance));
+  }
+
+  // Unconstrained parameterisations keep every model positive and stationary:
+  // GARCH/GJR use omega = exp(x0), persistence = 0.9999 * sigmoid(x1) split by sigmoids,
+  // EGARCH bounds |beta| < 1 through tanh
+  private volatilityModelSpec(
+    model: VolatilityModelType,
+    sampleVariance: number
+  ): { initial: number[]; toParameters: (x: number[]) => { omega: number; alpha: number; beta: number; gamma: number } } {
+    if (model === 'EGARCH') {
+      const initialBeta = 0.98;
+      return {
+        initial: [Math.log(sampleVariance) * (1 - initialBeta), 0.1, -0.05, this.atanh(initialBeta / 0.9999)],
+        toParameters: x => ({
+          omega: x[0],
+          alpha: x[1],
+          gamma: x[2],
+          beta: 0.9999 * Math.tanh(x[3])
+        })
+      };
+    }
+    
+    if (model === 'GJR-GARCH') {
+      // Start from alpha = 0.03, gamma = 0.1, beta = 0.91 (persistence 0.99)
+      const initialPersistence = 0.99;
+      const initialShock = 0.03 + 0.1 / 2;
+      return {
+        initial: [
+          Math.log(sampleVariance * (1 - initialPersistence)),
+          this.logit(initialPersistence / 0.9999),
+          this.logit(initialShock / initialPersistence),
+          this.logit(0.03 / initialShock)
+        ],
+        toParameters: x => {
+          const persistence = 0.9999 * this.sigmoid(x[1]);
+          const shock = persistence * this.sigmoid(x[2]); // alpha + gamma / 2
+          const alphaShare = this.sigmoid(x[3]);
+          return {
+            omega: Math.exp(x[0]),
+            alpha: shock * alphaShare,
+            gamma: 2 * shock * (1 - alphaShare),
+            beta: persistence - shock
+          };
+        }
+      };
+    }
+    
+    // Start from the textbook equity parameters with variance targeting for omega
+    const initialPersistence = 0.99;
+    return {
+      initial: [
+        Math.log(sampleVariance * (1 - initialPersistence)),
+        this.logit(initialPersistence / 0.9999),
+        this.logit(0.08 / initialPersistence)
+      ],
+      toParameters: x => {
+        const persistence = 0.9999 * this.sigmoid(x[1]);
+        const alphaShare = this.sigmoid(x[2]);
+        return {
+          omega: Math.exp(x[0]),
+          alpha: persistence * alphaShare,
+          beta: persistence * (1 - alphaShare),
+          gamma: 0
+        };
+      }
+    };
+  }
+
+  private nextConditionalVariance(
+    model: VolatilityModelType,
+    params: { omega: number; alpha: number; beta: number; gamma: number },
+    residual: number,
+    conditionalVariance: number
+  ): number {
+    const { omega, alpha, beta, gamma } = params;
+    
+    if (model === 'EGARCH') {
+      const z = residual / Math.sqrt(conditionalVariance);
+      return Math.exp(omega + alpha * (Math.abs(z) - Math.sqrt(2 / Math.PI)) + gamma * z + beta * Math.log(conditionalVariance));
+    }
+    
+    const leverage = model === 'GJR-GARCH' && residual < 0 ? gamma : 0;
+    return omega + (alpha + leverage) * residual * residual + beta * conditionalVariance;
+  }
+
+  private volatilityLogLikelihood(
+    model: VolatilityModelType,
+    residuals: number[],
+    params: { omega: number; alpha: number; beta: number; gamma: number },
+    initialVariance: number
+  ): { logLikelihood: number; variances: number[] } {
+    const variances: number[] = [];
+    let conditionalVariance = initialVariance;
+    let logLikelihood = 0;
+    
+    for (let i = 0; i < residuals.length; i++) {
+      if (i > 0) {
+        conditionalVariance = this.nextConditionalVariance(model, params, residuals[i - 1], conditionalVariance);
+      }
+      variances.push(conditionalVariance);
+      logLikelihood -= 0.5 * (Math.log(2 * Math.PI) + Math.log(conditionalVariance) + Math.pow(residuals[i], 2) / conditionalVariance);
+    }
+    
+    return { logLikelihood, variances };
+  }
+
+  // Nelder-Mead simplex minimiser for the likelihood fits
+  private nelderMead(
+    objective: (x: number[]) => number,
+    initial: number[],
+    maxIterations: number = 500,
+    tolerance: number = 1e-8
+  ): { point: number[]; value: number; converged: boolean } {
+    const dimension = initial.length;
+    let simplex = [initial.slice()];
+    for (let i = 0; i < dimension; i++) {
+      const vertex = initial.slice();
+      vertex[i] += vertex[i] !== 0 ? 0.1 * Math.abs(vertex[i]) : 0.1;
+      simplex.push(vertex);
+    }
+    let values = simplex.map(objective);
+    
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+      simplex = order.map(i => simplex[i]);
+      values = order.map(i => values[i]);
+      
+      if (Math.abs(values[dimension] - values[0]) <= tolerance * (Math.abs(values[0]) + tolerance)) {
+        return { point: simplex[0], value: values[0], converged: true };
+      }
+      
+      const centroid = initial.map((_, j) =>
+        simplex.slice(0, dimension).reduce((sum, vertex) => sum + vertex[j], 0) / dimension
+      );
+      const worst = simplex[dimension];
+      const moveFrom = (coefficient: number) => centroid.map((c, j) => c + coefficient * (worst[j] - c));
+      
+      const reflected = moveFrom(-1);
+      const reflectedValue = objective(reflected);
+      
+      if (reflectedValue < values[0]) {
+        const expanded = moveFrom(-2);
+        const expandedValue = objective(expanded);
+        if (expandedValue < reflectedValue) {
+          simplex[dimension] = expanded;
+          values[dimension] = expandedValue;
+        } else {
+          simplex[dimension] = reflected;
+          values[dimension] = reflectedValue;
+        }
+      } else if (reflectedValue < values[dimension - 1]) {
+        simplex[dimension] = reflected;
+        values[dimension] = reflectedValue;
+      } else {
+        const contracted = reflectedValue < values[dimension] ? moveFrom(-0.5) : moveFrom(0.5);
+        const contractedValue = objective(contracted);
+        if (contractedValue < Math.min(reflectedValue, values[dimension])) {
+          simplex[dimension] = contracted;
+          values[dimension] = contractedValue;
+        } else {
+          // Shrink towards the best vertex
+          for (let i = 1; i <= dimension; i++) {
+            simplex[i] = simplex[i].map((x, j) => simplex[0][j] + 0.5 * (x - simplex[0][j]));
+            values[i] = objective(simplex[i]);
+          }
+        }
+      }
+    }
+    
+    const best = values.indexOf(Math.min(...values));
+    return { point: simplex[best], value: values[best], converged: false };
+  }
+
+  // x * ln(y) with the 0 * ln(0) = 0 convention used by likelihood-ratio tests
+  private xLogY(x: number, y: number): number {
+    return x === 0 ? 0 : x * Math.log(y);
+  }
+
+  // Mean of 0/1 path indicators, optionally shifted by a control with known expectation; the
+  // standard error is the spread of unit averages (paths, antithetic pairs or Sobol replicates)
+  private estimateProbability(
+    indicators: number[],
+    units: number[],
+    control: { values: number[]; expectation: number } | null
+  ): { probability: number; standardError: number; controlCoefficient: number } {
+    const unitCount = units[units.length - 1] + 1;
+    const unitSums = new Array(unitCount).fill(0);
+    const unitControlSums = new Array(unitCount).fill(0);
+    const unitSizes = new Array(unitCount).fill(0);
+    indicators.forEach((value, i) => {
+      unitSums[units[i]] += value;
+      unitControlSums[units[i]] += control ? control.values[i] : 0;
+      unitSizes[units[i]]++;
+    });
+    const unitMeans = unitSums.map((sum, u) => sum / unitSizes[u]);
+    const unitControlMeans = unitControlSums.map((sum, u) => sum / unitSizes[u]);
+    
+    let coefficient = 0;
+    if (control && unitCount > 1) {
+      const controlVariance = this.calculateCovariance(unitControlMeans, unitControlMeans);
+      coefficient = controlVariance > 0 ? this.calculateCovariance(unitMeans, unitControlMeans) / controlVariance : 0;
+    }
+    
+    const controlShift = control ? mean(control.values) - control.expectation : 0;
+    const probability = Math.min(1, Math.max(0, mean(indicators) - coefficient * controlShift));
+    const adjusted = unitMeans.map((value, u) => value - coefficient * unitControlMeans[u]);
+    const standardError = unitCount > 1 ? standardDeviation(adjusted) * Math.sqrt(unitCount / (unitCount - 1)) / Math.sqrt(unitCount) : 0;
+    
+    return { probability, standardError, controlCoefficient: coefficient };
+  }
+
+  // Brownian bridge on the cumulative-variance clock: the first coordinate sets the terminal value and
+  // later ones fill in midpoints, so the leading (Sobol) coordinates carry most of the path variance.
+  // Returns a map from bridge-ordered standard normals to the equivalent daily standard normals.
+  private brownianBridge(dailyVariances: number[]): (normals: number[]) => number[] {
+    const days = dailyVariances.length;
+    const clock = [0];
+    dailyVariances.forEach(v => clock.push(clock[clock.length - 1] + v));
+    
+    const steps: Array<{ index: number; left: number; right: number; leftWeight: number; rightWeight: number; scale: number }> = [
+      { index: days, left: 0, right: 0, leftWeight: 0, rightWeight: 0, scale: Math.sqrt(clock[days]) }
+    ];
+    const intervals: Array<[number, number]> = [[0, days]];
+    while (intervals.length > 0) {
+      const [left, right] = intervals.shift()!;
+      if (right - left < 2) continue;
+      const middle = Math.floor((left + right) / 2);
+      const span = clock[right] - clock[left];
+      steps.push({
+        index: middle,
+        left,
+        right,
+        leftWeight: (clock[right] - clock[middle]) / span,
+        rightWeight: (clock[middle] - clock[left]) / span,
+        scale: Math.sqrt((clock[middle] - clock[left]) * (clock[right] - clock[middle]) / span)
+      });
+      intervals.push([left, middle], [middle, right]);
+    }
+    
+    return (normals: number[]) => {
+      const level = new Array(days + 1).fill(0);
+      steps.forEach((step, k) => {
+        level[step.index] = step.leftWeight * level[step.left] + step.rightWeight * level[step.right] + step.scale * normals[k];
+      });
+      return dailyVariances.map((v, day) => (level[day + 1] - level[day]) / Math.sqrt(v));
+    };
+  }
+
+  private normalCDF(x: number): number {
+    // Abramowitz-Stegun erf approximation evaluated at x / sqrt(2)
+    const z = Math.abs(x) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * z);
+    const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-z * z);
+    return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+  }
+
+  private chiSquarePValue(statistic: number, degreesOfFreedom: 1 | 2): number {
+    if (!isFinite(statistic) || statistic <= 0) return 1;
+    // Closed forms for the one and two degree-of-freedom tails
+    return degreesOfFreedom === 1
+      ? 2 * (1 - this.normalCDF(Math.sqrt(statistic)))
+      : Math.exp(-statistic / 2);
+  }
+
+  private binomialCDF(k: number, n: number, p: number): number {
+    let cumulative = 0;
+    let logCoefficient = 0; // ln C(n, i)
+    for (let i = 0; i <= k; i++) {
+      if (i > 0) logCoefficient += Math.log(n - i + 1) - Math.log(i);
+      cumulative += Math.exp(logCoefficient + this.xLogY(i, p) + this.xLogY(n - i, 1 - p));
+    }
+    return Math.min(1, cumulative);
+  }
+
+  private sigmoid(x: number): number {
+    return 1 / (1 + Math.exp(-x));
+  }
+
+  private logit(p: number): number {
+    return Math.log(p / (1 - p));
+  }
+
+  private atanh(x: number): number {
+    return 0.5 * Math.log((1 + x) / (1 - x));
   }
 
   private inverseNormal(p: number): number {
@@ -350,28 +2218,310 @@ export class AdvancedRiskEngine {
     return (n * (n + 1) / ((n - 1) * (n - 2) * (n - 3))) * kurtSum - 3 * (n - 1) * (n - 1) / ((n - 2) * (n - 3));
   }
 
-  private calculateMaxDrawdown(): number {
-    const cumulativeReturns = this.returns.reduce((acc, ret, i) => {
-      if (i === 0) {
-        acc.push(1 + ret);
-      } else {
-        acc.push(acc[i - 1] * (1 + ret));
+  // Bartlett long-run variance of squared returns over 2σ⁴, its value for iid normal returns: (kurtosis - 1) / 2
+  // for iid fat tails, larger under volatility clustering. Bandwidth 2·n^(1/3)
+  private squaredReturnLongRunRatio(returns: number[]): number {
+    const n = returns.length;
+    if (n < 2) return 1;
+    const squares = returns.map(r => r * r);
+    const meanSquare = mean(squares);
+    if (meanSquare <= 0) return 1;
+    const centered = squares.map(s => s - meanSquare);
+    const autocovariance = (lag: number) => {
+      let sum = 0;
+      for (let i = lag; i < n; i++) sum += centered[i] * centered[i - lag];
+      return sum / n;
+    };
+    
+    const bandwidth = Math.min(n - 1, Math.floor(2 * Math.cbrt(n)));
+    let longRunVariance = autocovariance(0);
+    for (let lag = 1; lag <= bandwidth; lag++) {
+      longRunVariance += 2 * (1 - lag / (bandwidth + 1)) * autocovariance(lag);
+    }
+    return longRunVariance / (2 * meanSquare * meanSquare);
+  }
+
+  // Roughly ten sizes per decade between `min` and `max`, rounded to whole days
+  private logSpacedScales(min: number, max: number): number[] {
+    const scales: number[] = [];
+    for (let size = min; size <= max; size = Math.max(size + 1, Math.round(size * 1.25))) scales.push(size);
+    return scales;
+  }
+
+  // Least-squares slope through (x, y) points
+  private slope(points: number[][]): number {
+    const xs = points.map(point => point[0]);
+    const ys = points.map(point => point[1]);
+    return this.calculateCovariance(xs, ys) / this.calculateCovariance(xs, xs);
+  }
+
+  // Anis-Lloyd-Peters expected R/S of `size` independent normal returns
+  private expectedRescaledRange(size: number): number {
+    let sum = 0;
+    for (let i = 1; i < size; i++) sum += Math.sqrt((size - i) / i);
+    const gammaRatio = size <= 340
+      ? Math.exp(this.logGamma((size - 1) / 2) - this.logGamma(size / 2)) / Math.sqrt(Math.PI)
+      : 1 / Math.sqrt(size * Math.PI / 2);
+    return (size - 0.5) / size * gammaRatio * sum;
+  }
+
+  // Lanczos approximation (g = 7)
+  private logGamma(x: number): number {
+    const coefficients = [
+      0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+      -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+    ];
+    if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - this.logGamma(1 - x);
+    
+    const z = x - 1;
+    let series = coefficients[0];
+    for (let i = 1; i < coefficients.length; i++) series += coefficients[i] / (z + i);
+    const base = z + 7.5;
+    return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(base) - base + Math.log(series);
+  }
+
+  // OLS coefficients and their standard errors
+  private ordinaryLeastSquares(rows: number[][], targets: number[]): { coefficients: number[]; standardErrors: number[] } {
+    const X = new Matrix(rows);
+    const Xt = X.transpose();
+    const covariance = inverse(Xt.mmul(X));
+    const coefficients = covariance.mmul(Xt).mmul(Matrix.columnVector(targets)).getColumn(0);
+    
+    const residualSquares = rows.reduce((sum, row, i) => {
+      const fitted = row.reduce((total, x, j) => total + x * coefficients[j], 0);
+      return sum + (targets[i] - fitted) ** 2;
+    }, 0);
+    const residualVariance = residualSquares / (rows.length - coefficients.length);
+    
+    return {
+      coefficients,
+      standardErrors: coefficients.map((_, j) => Math.sqrt(residualVariance * covariance.get(j, j)))
+    };
+  }
+
+  // CUSUM of demeaned values scaled by their standard deviation; sup |B(t)| of a Brownian bridge under the null
+  private cusumTest(deviations: number[], date: (index: number) => string): CUSUMTest {
+    const n = deviations.length;
+    const scale = Math.sqrt(deviations.reduce((sum, x) => sum + x * x, 0)); // sigma * sqrt(n)
+    let cumulative = 0;
+    let peak = 0;
+    let peakIndex = 0;
+    
+    deviations.forEach((x, i) => {
+      cumulative += x;
+      if (Math.abs(cumulative) > peak) {
+        peak = Math.abs(cumulative);
+        peakIndex = i;
       }
-      return acc;
-    }, [] as number[]);
+    });
     
-    let maxDrawdown = 0;
-    let peak = cumulativeReturns[0];
+    const statistic = scale > 0 ? peak / scale : 0;
     
-    for (let i = 1; i < cumulativeReturns.length; i++) {
-      if (cumulativeReturns[i] > peak) {
-        peak = cumulativeReturns[i];
+    // Kolmogorov distribution: P(sup |B| > x) = 2 * sum (-1)^(k-1) exp(-2 k^2 x^2)
+    let pValue = 0;
+    for (let k = 1; k <= 100; k++) {
+      pValue += 2 * (k % 2 === 1 ? 1 : -1) * Math.exp(-2 * k * k * statistic * statistic);
+    }
+    pValue = statistic > 0 ? Math.min(1, Math.max(0, pValue)) : 1;
+    
+    return { statistic, pValue, breakDate: date(Math.min(peakIndex + 1, n - 1)), significant: pValue < 0.05 };
+  }
+
+  // Scaled forward-backward pass: filtered and smoothed state probabilities, expected transition counts and log-likelihood
+  private regimeForwardBackward(returns: number[], parameters: RegimeParameters): {
+    filtered: number[][];
+    smoothed: number[][];
+    transitions: number[][];
+    logLikelihood: number;
+  } {
+    const { initial, transition, means, variances } = parameters;
+    const k = means.length;
+    const n = returns.length;
+    const density = (r: number) => means.map((m, j) =>
+      Math.max(Math.exp(-((r - m) ** 2) / (2 * variances[j])) / Math.sqrt(2 * Math.PI * variances[j]), 1e-300)
+    );
+    
+    const emissions = returns.map(density);
+    const filtered: number[][] = [];
+    const scales: number[] = [];
+    let logLikelihood = 0;
+    
+    for (let t = 0; t < n; t++) {
+      const prior = t === 0
+        ? initial
+        : initial.map((_, j) => filtered[t - 1].reduce((sum, p, i) => sum + p * transition[i][j], 0));
+      const joint = prior.map((p, j) => p * emissions[t][j]);
+      const scale = joint.reduce((sum, x) => sum + x, 0);
+      filtered.push(joint.map(x => x / scale));
+      scales.push(scale);
+      logLikelihood += Math.log(scale);
+    }
+    
+    const transitions = Array.from({ length: k }, () => new Array(k).fill(0));
+    const smoothed: number[][] = new Array(n);
+    let backward = new Array(k).fill(1);
+    smoothed[n - 1] = filtered[n - 1].slice();
+    
+    for (let t = n - 2; t >= 0; t--) {
+      const ahead = backward.map((b, j) => b * emissions[t + 1][j] / scales[t + 1]);
+      for (let i = 0; i < k; i++) {
+        for (let j = 0; j < k; j++) {
+          transitions[i][j] += filtered[t][i] * transition[i][j] * ahead[j];
+        }
       }
-      const drawdown = (peak - cumulativeReturns[i]) / peak;
-      maxDrawdown = Math.max(maxDrawdown, drawdown);
+      backward = transition.map(row => row.reduce((sum, a, j) => sum + a * ahead[j], 0));
+      const unnormalized = filtered[t].map((p, i) => p * backward[i]);
+      const total = unnormalized.reduce((sum, x) => sum + x, 0);
+      smoothed[t] = unnormalized.map(x => x / total);
     }
     
-    return maxDrawdown;
+    return { filtered, smoothed, transitions, logLikelihood };
+  }
+
+  // Per-bar log components for the range estimators; bar i pairs day i + 1 with the previous close
+  private rangeVolatilityBars(): Array<{
+    date: string;
+    closeToClose: number;
+    overnight: number;
+    openToClose: number;
+    highLow: number;
+    rogersSatchell: number;
+    valid: boolean;
+  }> {
+    return this.logReturns.map((closeToClose, i) => {
+      const { date, open, high, low, close } = this.data[i + 1];
+      const previousClose = this.data[i].close;
+      const valid = open > 0 && low > 0 && previousClose > 0 && high >= Math.max(open, close) && low <= Math.min(open, close);
+      if (!valid) {
+        return { date, closeToClose, overnight: 0, openToClose: 0, highLow: 0, rogersSatchell: 0, valid };
+      }
+      
+      const up = Math.log(high / open);
+      const down = Math.log(low / open);
+      const openToClose = Math.log(close / open);
+      return {
+        date,
+        closeToClose,
+        overnight: Math.log(open / previousClose),
+        openToClose,
+        highLow: Math.log(high / low),
+        rogersSatchell: up * (up - openToClose) + down * (down - openToClose),
+        valid
+      };
+    });
+  }
+
+  private rangeVolatility(
+    bars: ReturnType<AdvancedRiskEngine['rangeVolatilityBars']>,
+    start: number,
+    end: number
+  ): RangeVolatilityEstimates {
+    const window = bars.slice(start, end);
+    const usable = window.filter(bar => bar.valid);
+    const annualize = (dailyVariance: number) => Math.sqrt(Math.max(0, dailyVariance) * 252);
+    const sampleVariance = (values: number[]) =>
+      values.length > 1 ? this.calculateCovariance(values, values) : 0;
+    
+    const closeToClose = annualize(sampleVariance(window.map(bar => bar.closeToClose)));
+    const n = usable.length;
+    if (n < 2) {
+      return { closeToClose, parkinson: 0, garmanKlass: 0, rogersSatchell: 0, yangZhang: 0, observations: n };
+    }
+    
+    const parkinson = mean(usable.map(bar => bar.highLow * bar.highLow)) / (4 * Math.LN2);
+    const garmanKlass = mean(usable.map(bar =>
+      0.5 * bar.highLow * bar.highLow - (2 * Math.LN2 - 1) * bar.openToClose * bar.openToClose
+    ));
+    const rogersSatchell = mean(usable.map(bar => bar.rogersSatchell));
+    
+    // Yang-Zhang weight that minimises estimator variance (k = 0.34 / (1.34 + (n + 1) / (n - 1)))
+    const k = 0.34 / (1.34 + (n + 1) / (n - 1));
+    const yangZhang = sampleVariance(usable.map(bar => bar.overnight)) +
+      k * sampleVariance(usable.map(bar => bar.openToClose)) +
+      (1 - k) * rogersSatchell;
+    
+    return {
+      closeToClose,
+      parkinson: annualize(parkinson),
+      garmanKlass: annualize(garmanKlass),
+      rogersSatchell: annualize(rogersSatchell),
+      yangZhang: annualize(yangZhang),
+      observations: n
+    };
+  }
+
+  // Daily returns less the risk-free rate in force on each return's date
+  private calculateExcessReturns(): number[] {
+    return this.returns.map((r, i) => r - this.riskFreeRate.dailyRate(this.data[i + 1].date));
+  }
+
+  // Variance of the (per-period) Sharpe estimator under non-normal returns (Mertens / Bailey-Lopez de Prado)
+  private sharpeEstimatorVariance(sharpe: number, excessReturns: number[]): number {
+    const skewness = this.calculateSkewness(excessReturns);
+    const kurtosis = this.calculateKurtosis(excessReturns) + 3;
+    return Math.max(0, 1 - skewness * sharpe + (kurtosis - 1) / 4 * sharpe * sharpe) / (excessReturns.length - 1);
+  }
+
+  // Probability that the true per-period Sharpe ratio exceeds `benchmarkSharpe`
+  private probabilisticSharpeRatio(sharpe: number, excessReturns: number[], benchmarkSharpe: number): number {
+    const estimatorVariance = this.sharpeEstimatorVariance(sharpe, excessReturns);
+    if (estimatorVariance === 0) return sharpe > benchmarkSharpe ? 1 : 0;
+    return this.normalCDF((sharpe - benchmarkSharpe) / Math.sqrt(estimatorVariance));
+  }
+
+  // Expected maximum Sharpe ratio among `trials` independent attempts with no true skill, using the
+  // estimator variance as the cross-trial variance (deflated Sharpe ratio benchmark)
+  private expectedMaxSharpe(sharpe: number, excessReturns: number[], trials: number): number {
+    if (trials < 2) return 0;
+    const eulerGamma = 0.5772156649;
+    const spread = Math.sqrt(this.sharpeEstimatorVariance(sharpe, excessReturns));
+    return spread * (
+      (1 - eulerGamma) * this.inverseNormal(1 - 1 / trials) +
+      eulerGamma * this.inverseNormal(1 - 1 / (trials * Math.E))
+    );
+  }
+
+  // Benchmark return over the same pair of dates as each of this series' returns (null where a date is missing)
+  private alignBenchmarkReturns(benchmarkData: MarketData[]): Array<number | null> {
+    const benchmarkCloses = new Map(benchmarkData.map(item => [item.date.slice(0, 10), item.close]));
+    
+    return this.returns.map((_, i) => {
+      const previous = benchmarkCloses.get(this.data[i].date.slice(0, 10));
+      const current = benchmarkCloses.get(this.data[i + 1].date.slice(0, 10));
+      return previous !== undefined && current !== undefined && previous > 0 ? current / previous - 1 : null;
+    });
+  }
+
+  // Compound annual growth rate of the close series (252 trading days per year)
+  private calculateAnnualizedReturn(): number {
+    const lastIndex = this.data.length - 1;
+    const years = lastIndex / 252;
+    return years > 0 ? Math.pow(this.data[lastIndex].close / this.data[0].close, 1 / years) - 1 : 0;
+  }
+
+  private calculateUnderwaterCurve(): UnderwaterPoint[] {
+    let peak = -Infinity;
+    return this.data.map(item => {
+      peak = Math.max(peak, item.close);
+      return { date: item.date, drawdown: item.close / peak - 1 };
+    });
+  }
+
+  private drawdownEpisode(
+    underwater: UnderwaterPoint[],
+    peakIndex: number,
+    troughIndex: number,
+    recoveryIndex: number | null
+  ): DrawdownEpisode {
+    return {
+      startDate: underwater[peakIndex].date,
+      troughDate: underwater[troughIndex].date,
+      recoveryDate: recoveryIndex !== null ? underwater[recoveryIndex].date : null,
+      depth: -underwater[troughIndex].drawdown,
+      daysToTrough: troughIndex - peakIndex,
+      daysToRecover: recoveryIndex !== null ? recoveryIndex - troughIndex : null,
+      duration: (recoveryIndex ?? underwater.length - 1) - peakIndex
+    };
   }
 
   private calculateCovariance(x: number[], y: number[]): number {
@@ -0,0 +1,321 @@
+import { AdvancedRiskEngine, MarketData, GARCHResult } from './RiskModels';
+import { OptionsAnalyzer } from './OptionsModels';
+import { RiskFreeRate } from './RiskFreeRate';
+
+export interface StressScenario {
+  id: string;
+  name: string;
+  start: string; // YYYY-MM-DD, market peak before the episode
+  end: string; // YYYY-MM-DD, market trough
+  description: string;
+  reference: {
+    // Published S&P 500 figures, used when no loaded series covers the episode
+    peakToTrough: number;
+    worstDay: number;
+    worstDayDate: string;
+  };
+}
+
+export type StressTestSource = 'symbol' | 'benchmark' | 'reference';
+
+export interface StressTestResult {
+  scenario: StressScenario;
+  source: StressTestSource; // Own returns, beta-mapped benchmark returns, or beta-scaled S&P 500 reference figures
+  beta: number | null; // Beta applied to proxy sources
+  peakDate: string;
+  troughDate: string;
+  peakToTrough: number; // Worst cumulative decline within the episode
+  worstDay: { date: string; return: number };
+  recoveryDays: number | null; // Trading days from trough back to the prior peak; null if not regained in the data or unknown
+  recoveryDate: string | null;
+}
+
+// Hypothetical market shock, applied instantly and evaluated `horizonDays` later
+export interface ShockScenario {
+  id: string;
+  name: string;
+  benchmarkMove: number; // Benchmark simple return, e.g. -0.15
+  volatilityMultiplier: number; // Scales the GARCH volatility forecast, e.g. 2 = vol doubles
+  correlationChange: number; // Added to the correlation with the benchmark, e.g. 0.2
+  rateShift: number; // Change in the annual risk-free rate, e.g. 0.01 = +100bp
+  horizonDays: number; // Trading days until the position is revalued
+}
+
+export interface OptionLeg {
+  type: 'call' | 'put';
+  strike: number;
+  daysToExpiry: number; // Trading days
+  contracts: number; // Negative when written; 100 shares per contract
+  impliedVolatility?: number; // Defaults to the GARCH forecast to expiry
+}
+
+export interface ScenarioPosition {
+  shares: number;
+  options: OptionLeg[];
+}
+
+export interface ShockScenarioInputs {
+  engine: AdvancedRiskEngine;
+  volatilityFit: GARCHResult; // Current volatility state
+  beta: number;
+  correlation: number | null; // With the benchmark; null when the histories do not overlap
+  price: number;
+}
+
+export interface OptionRepricing {
+  leg: OptionLeg;
+  baseValue: number; // Per share
+  shockedValue: number;
+  baseVolatility: number;
+  shockedVolatility: number;
+  pnl: number; // For the whole leg
+}
+
+export interface ShockScenarioResult {
+  scenario: ShockScenario;
+  beta: number; // After the correlation change
+  correlation: number | null;
+  priceMove: number; // Systematic move: shocked beta x benchmark move
+  shockedPrice: number;
+  volatility: number; // Annualized GARCH forecast over the horizon
+  shockedVolatility: number;
+  garchResponse: number; // Next-day annualized volatility the fitted model implies after the move
+  idiosyncraticRange: number; // 90% half-width of the residual return over the horizon
+  stockPnL: number;
+  options: OptionRepricing[];
+  totalPnL: number;
+  pnlRange: [number, number]; // Total P&L at the low and high ends of the idiosyncratic range
+}
+
+export const HISTORICAL_SCENARIOS: StressScenario[] = [
+  {
+    id: 'black-monday-1987',
+    name: '1987 Black Monday',
+    start: '1987-08-25',
+    end: '1987-12-04',
+    description: 'Portfolio-insurance selling and a 20% one-day crash on 19 October',
+    reference: { peakToTrough: -0.335, worstDay: -0.2047, worstDayDate: '1987-10-19' }
+  },
+  {
+    id: 'gfc-2008',
+    name: '2008 Global Financial Crisis',
+    start: '2007-10-09',
+    end: '2009-03-09',
+    description: 'Subprime losses, Lehman Brothers failure and global deleveraging',
+    reference: { peakToTrough: -0.568, worstDay: -0.0903, worstDayDate: '2008-10-15' }
+  },
+  {
+    id: 'us-downgrade-2011',
+    name: '2011 US Downgrade',
+    start: '2011-04-29',
+    end: '2011-10-03',
+    description: 'S&P downgrade of US sovereign debt amid the euro-area debt crisis',
+    reference: { peakToTrough: -0.194, worstDay: -0.0666, worstDayDate: '2011-08-08' }
+  },
+  {
+    id: 'covid-2020',
+    name: '2020 COVID Crash',
+    start: '2020-02-19',
+    end: '2020-03-23',
+    description: 'Pandemic lockdowns; the fastest 30% decline on record',
+    reference: { peakToTrough: -0.339, worstDay: -0.1198, worstDayDate: '2020-03-16' }
+  },
+  {
+    id: 'rates-2022',
+    name: '2022 Rates Shock',
+    start: '2022-01-03',
+    end: '2022-10-12',
+    description: 'Fastest Fed tightening in four decades repricing duration and growth',
+    reference: { peakToTrough: -0.254, worstDay: -0.0432, worstDayDate: '2022-09-13' }
+  }
+];
+
+// Starting set of hypothetical shocks; users save their own alongside these
+export const DEFAULT_SHOCK_SCENARIOS: ShockScenario[] = [
+  {
+    id: 'benchmark-15-vol-2x',
+    name: 'Benchmark -15%, vol x2',
+    benchmarkMove: -0.15,
+    volatilityMultiplier: 2,
+    correlationChange: 0.2,
+    rateShift: 0,
+    horizonDays: 5
+  },
+  {
+    id: 'rates-100bp-selloff',
+    name: 'Rates +100bp, benchmark -8%',
+    benchmarkMove: -0.08,
+    volatilityMultiplier: 1.5,
+    correlationChange: 0.1,
+    rateShift: 0.01,
+    horizonDays: 21
+  }
+];
+
+// Replay each scenario against the symbol's own history, falling back to a beta-mapped benchmark proxy
+export function runHistoricalStressTests(
+  data: MarketData[],
+  benchmarkData: MarketData[],
+  beta: number,
+  scenarios: StressScenario[] = HISTORICAL_SCENARIOS
+): StressTestResult[] {
+  const symbolPath = data.map(bar => ({ date: bar.date.slice(0, 10), level: bar.close }));
+  
+  // Benchmark daily returns scaled by beta and compounded into a synthetic price path
+  const proxyPath = benchmarkData.reduce<Array<{ date: string; level: number }>>((path, bar, i) => {
+    const level = i === 0 ? 1 : path[i - 1].level * Math.max(0, 1 + beta * (bar.close / benchmarkData[i - 1].close - 1));
+    path.push({ date: bar.date.slice(0, 10), level });
+    return path;
+  }, []);
+  
+  return scenarios.map(scenario => {
+    if (coversEpisode(symbolPath, scenario)) {
+      return { scenario, source: 'symbol' as const, beta: null, ...replayEpisode(symbolPath, scenario) };
+    }
+    if (coversEpisode(proxyPath, scenario)) {
+      return { scenario, source: 'benchmark' as const, beta, ...replayEpisode(proxyPath, scenario) };
+    }
+    
+    const { peakToTrough, worstDay, worstDayDate } = scenario.reference;
+    return {
+      scenario,
+      source: 'reference' as const,
+      beta,
+      peakDate: scenario.start,
+      troughDate: scenario.end,
+      peakToTrough: Math.max(-1, beta * peakToTrough),
+      worstDay: { date: worstDayDate, return: Math.max(-1, beta * worstDay) },
+      recoveryDays: null,
+      recoveryDate: null
+    };
+  });
+}
+
+// The path needs a close on or before the episode start and data through its end
+function coversEpisode(path: Array<{ date: string }>, scenario: StressScenario): boolean {
+  return path.length > 1 && path[0].date <= scenario.start && path[path.length - 1].date >= scenario.end;
+}
+
+function replayEpisode(
+  path: Array<{ date: string; level: number }>,
+  scenario: StressScenario
+): Pick<StressTestResult, 'peakDate' | 'troughDate' | 'peakToTrough' | 'worstDay' | 'recoveryDays' | 'recoveryDate'> {
+  // Base is the last close on or before the start; the episode runs through the last close on or before the end
+  let first = 0;
+  while (first + 1 < path.length && path[first + 1].date <= scenario.start) first++;
+  let last = first;
+  while (last + 1 < path.length && path[last + 1].date <= scenario.end) last++;
+  
+  let peakIndex = first;
+  let drawdownPeak = first;
+  let trough = first;
+  let peakToTrough = 0;
+  let worstDay = { date: path[first].date, return: 0 };
+  
+  for (let i = first + 1; i <= last; i++) {
+    const dailyReturn = path[i].level / path[i - 1].level - 1;
+    if (dailyReturn < worstDay.return) worstDay = { date: path[i].date, return: dailyReturn };
+    
+    if (path[i].level > path[peakIndex].level) peakIndex = i;
+    const drawdown = path[i].level / path[peakIndex].level - 1;
+    if (drawdown < peakToTrough) {
+      peakToTrough = drawdown;
+      drawdownPeak = peakIndex;
+      trough = i;
+    }
+  }
+  
+  // Recovery: first close after the trough back at the pre-trough peak, searching beyond the episode
+  let recovery = -1;
+  if (peakToTrough < 0) {
+    for (let i = trough + 1; i < path.length; i++) {
+      if (path[i].level >= path[drawdownPeak].level) {
+        recovery = i;
+        break;
+      }
+    }
+  }
+  
+  return {
+    peakDate: path[drawdownPeak].date,
+    troughDate: path[trough].date,
+    peakToTrough,
+    worstDay,
+    recoveryDays: peakToTrough === 0 ? 0 : recovery >= 0 ? recovery - trough : null,
+    recoveryDate: recovery >= 0 ? path[recovery].date : null
+  };
+}
+
+// Translate a hypothetical shock into position P&L: the benchmark move maps to the symbol through a
+// correlation-adjusted beta, volatility scales the GARCH forecast, and options are repriced with Black-Scholes
+export function evaluateShockScenario(
+  scenario: ShockScenario,
+  position: ScenarioPosition,
+  inputs: ShockScenarioInputs
+): ShockScenarioResult {
+  const { engine, volatilityFit, price } = inputs;
+  const horizon = Math.max(1, Math.min(252, Math.round(scenario.horizonDays)));
+  const termStructure = engine.forecastVolatilityTermStructure(252, volatilityFit);
+  const forecastTo = (days: number) => termStructure[Math.max(1, Math.min(252, Math.round(days))) - 1].annualizedVolatility;
+
+  // beta = correlation x (symbol vol / benchmark vol), and a market-wide vol shock leaves the vol ratio unchanged
+  let beta = inputs.beta;
+  let correlation = inputs.correlation;
+  if (correlation !== null) {
+    const shocked = Math.max(-0.99, Math.min(0.99, correlation + scenario.correlationChange));
+    if (Math.abs(correlation) >= 0.05) beta *= shocked / correlation;
+    correlation = shocked;
+  }
+
+  const priceMove = Math.max(-1, beta * scenario.benchmarkMove);
+  const shockedPrice = price * (1 + priceMove);
+  const volatility = forecastTo(horizon);
+  const shockedVolatility = volatility * scenario.volatilityMultiplier;
+  const residualShare = Math.sqrt(1 - (correlation ?? 0) ** 2);
+  const idiosyncraticRange = 1.645 * shockedVolatility * residualShare * Math.sqrt(horizon / 252);
+
+  const baseRate = engine.getRiskFreeRate().annualRate();
+  const baseOptions = new OptionsAnalyzer(engine.getRiskFreeRate());
+  const shockedOptions = new OptionsAnalyzer(new RiskFreeRate(baseRate + scenario.rateShift));
+
+  // Black-Scholes value per share, intrinsic value at expiry
+  const optionValue = (analyzer: OptionsAnalyzer, leg: OptionLeg, spot: number, days: number, vol: number) =>
+    days <= 0
+      ? Math.max(0, leg.type === 'call' ? spot - leg.strike : leg.strike - spot)
+      : analyzer.calculateBlackScholes(spot, leg.strike, days / 252, vol, leg.type);
+
+  const legVolatility = (leg: OptionLeg) => leg.impliedVolatility ?? forecastTo(leg.daysToExpiry);
+  const shockedPositionValue = (spot: number) =>
+    position.shares * spot + position.options.reduce((sum, leg) =>
+      sum + 100 * leg.contracts * optionValue(shockedOptions, leg, spot, leg.daysToExpiry - horizon, legVolatility(leg) * scenario.volatilityMultiplier), 0);
+
+  const options = position.options.map(leg => {
+    const baseVolatility = legVolatility(leg);
+    const shockedVolatility = baseVolatility * scenario.volatilityMultiplier;
+    const baseValue = optionValue(baseOptions, leg, price, leg.daysToExpiry, baseVolatility);
+    const shockedValue = optionValue(shockedOptions, leg, shockedPrice, leg.daysToExpiry - horizon, shockedVolatility);
+    return { leg, baseValue, shockedValue, baseVolatility, shockedVolatility, pnl: 100 * leg.contracts * (shockedValue - baseValue) };
+  });
+
+  const baseValue = position.shares * price + options.reduce((sum, option) => sum + 100 * option.leg.contracts * option.baseValue, 0);
+  const stockPnL = position.shares * (shockedPrice - price);
+  const totalPnL = stockPnL + options.reduce((sum, option) => sum + option.pnl, 0);
+  const edges = [shockedPrice * (1 - idiosyncraticRange), shockedPrice * (1 + idiosyncraticRange)]
+    .map(spot => shockedPositionValue(Math.max(0, spot)) - baseValue);
+
+  return {
+    scenario,
+    beta,
+    correlation,
+    priceMove,
+    shockedPrice,
+    volatility,
+    shockedVolatility,
+    garchResponse: engine.forecastVolatilityAfterShock(priceMove, volatilityFit),
+    idiosyncraticRange,
+    stockPnL,
+    options,
+    totalPnL,
+    pnlRange: [Math.min(edges[0], edges[1]), Math.max(edges[0], edges[1])]
+  };
+}
@@ -0,0 +1,18 @@
+import { runRiskAnalysis, AnalysisWorkerRequest, AnalysisWorkerResponse } from './riskAnalysis';
+
+// Web Worker entry: runs the risk analysis off the main thread and streams progress back.
+// Cancellation is handled by the dashboard terminating the worker.
+const ctx = self as unknown as Worker;
+
+const post = (message: AnalysisWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const { id, input } = event.data;
+
+  try {
+    const result = runRiskAnalysis(input, progress => post({ type: 'progress', id, progress }));
+    post({ type: 'result', id, result });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
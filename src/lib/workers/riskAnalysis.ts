@@ -0,0 +1,295 @@
+import {
+  AdvancedRiskEngine,
+  MarketData,
+  RiskMetrics,
+  VolatilityModelType,
+  VolatilityModelComparison,
+  VaRBreakdown,
+  VaRBacktestResult,
+  VaRMethod,
+  GARCHResult,
+  LiquidityAnalysis,
+  EVTResult,
+  HorizonRisk,
+  DrawdownAnalysis,
+  RollingMetricsSeries,
+  RangeVolatilityEstimates,
+  RangeVolatilityPoint,
+  VolatilityConePoint,
+  RegimeModel,
+  ChangePointAnalysis,
+  PersistenceDiagnostics
+} from '@/lib/models/RiskModels';
+import {
+  TrendAnalysis,
+  VolumeProfileLevel,
+  AccumulationZone,
+  PriceProjection,
+  calculateUnifiedTrend,
+  calculateVolumeProfile,
+  generateAdvancedPriceProjections
+} from '@/lib/models/ProjectionModels';
+import { StressTestResult, runHistoricalStressTests } from '@/lib/models/StressTestModels';
+import { RiskFreeRateInput } from '@/lib/models/RiskFreeRate';
+import { formatNumber, formatPercent } from '@/lib/utils';
+
+export interface RiskAnalysisInput {
+  currentPrice: number;
+  data: MarketData[];
+  benchmarkData: MarketData[];
+  seed: number;
+  riskFreeRate: RiskFreeRateInput;
+  estimationStart?: string; // YYYY-MM-DD; models are fitted on data from this date, full history if omitted
+}
+
+// One-day VaR at 95% and 99%, by method
+export type VaRByMethod = Record<VaRMethod, { var95: number; var99: number }>;
+
+export interface LiquidityRisk {
+  analysis: LiquidityAnalysis;
+  liquidityAdjustedVaR: Record<VolatilityModelType, VaRByMethod>; // calculateVaR with this position's liquidation cost
+}
+
+export interface RiskAnalysisResult {
+  trend: TrendAnalysis | null;
+  metrics: RiskMetrics;
+  horizonRisk: HorizonRisk[];
+  backtest: VaRBacktestResult;
+  volatilityComparison: VolatilityModelComparison;
+  varBreakdowns: Record<VolatilityModelType, { var95: VaRBreakdown; var99: VaRBreakdown }>;
+  evt: EVTResult | null;
+  drawdowns: DrawdownAnalysis;
+  rollingMetrics: RollingMetricsSeries[];
+  rangeVolatility: RangeVolatilityEstimates;
+  rollingRangeVolatility: RangeVolatilityPoint[];
+  volatilityCone: VolatilityConePoint[];
+  regimeModels: RegimeModel[]; // 2- and 3-state fits
+  changePoints: ChangePointAnalysis; // Always on the full history
+  persistence: PersistenceDiagnostics;
+  stressTests: StressTestResult[]; // Replayed on the full history
+  liquidity: LiquidityRisk[]; // One per LIQUIDITY_POSITION_SIZES entry; empty without volume data
+  estimationStart: string | null; // First date of the estimation window, null for full history
+  projections: PriceProjection[];
+  volumeProfile: VolumeProfileLevel[];
+  accumulationZones: AccumulationZone[];
+}
+
+export type AnalysisLogLevel = 'info' | 'success' | 'error';
+
+export interface AnalysisProgress {
+  step: number;
+  totalSteps: number;
+  message: string;
+  type: AnalysisLogLevel;
+}
+
+// Messages exchanged with analysisWorker; `id` ties replies to the run that requested them
+export type AnalysisWorkerRequest = { type: 'run'; id: number; input: RiskAnalysisInput };
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; id: number; progress: AnalysisProgress }
+  | { type: 'result'; id: number; result: RiskAnalysisResult }
+  | { type: 'error'; id: number; message: string };
+
+const TOTAL_STEPS = 17;
+
+// Position sizes (shares) for liquidity-adjusted VaR
+export const LIQUIDITY_POSITION_SIZES = [100, 10000, 100000, 1000000];
+
+// Shortest estimation window accepted (a year of bars); shorter requests fall back to the full history
+export const MIN_ESTIMATION_BARS = 252;
+
+// Bars from `start` onwards, or the full history when no start is given or too little data remains
+export function selectEstimationWindow(data: MarketData[], start?: string | null): MarketData[] {
+  if (!start) return data;
+  const window = data.filter(bar => bar.date.slice(0, 10) >= start);
+  return window.length >= MIN_ESTIMATION_BARS ? window : data;
+}
+
+// Engine computations behind the dashboard, kept free of React so they can run inside a Web Worker
+export function runRiskAnalysis(
+  input: RiskAnalysisInput,
+  onProgress: (progress: AnalysisProgress) => void = () => {}
+): RiskAnalysisResult {
+  const { currentPrice, benchmarkData, seed, riskFreeRate } = input;
+  const fullHistory = input.data;
+  const data = selectEstimationWindow(fullHistory, input.estimationStart);
+  let step = 0;
+  const report = (message: string, type: AnalysisLogLevel = 'info', advance: boolean = false) => {
+    if (advance) step++;
+    onProgress({ step, totalSteps: TOTAL_STEPS, message, type });
+  };
+
+  // Initialize risk engine
+  report('Initializing advanced risk models...', 'info', true);
+  const engine = new AdvancedRiskEngine(data, riskFreeRate);
+  if (data !== fullHistory) {
+    report(`Estimation window: ${data.length} bars since ${data[0].date.slice(0, 10)} (of ${fullHistory.length})`, 'success');
+  } else if (input.estimationStart) {
+    report(`Too little data since ${input.estimationStart}; using full history`, 'error');
+  }
+
+  // Calculate unified trend analysis
+  report('Computing unified trend analysis...', 'info', true);
+  const trend = calculateUnifiedTrend(data);
+  if (trend) {
+    report(`Trend Direction: ${trend.direction.toUpperCase()}`, 'success');
+    report(`Trend Strength: ${formatPercent(trend.strength)}`, 'success');
+    report(`Confidence: ${formatPercent(trend.confidence)}`, 'success');
+  }
+
+  // Calculate risk metrics with benchmark data
+  report('Computing GARCH volatility model...', 'info', true);
+  const metrics = engine.calculateAdvancedRiskMetrics(benchmarkData);
+  report(`VaR(95%): ${formatPercent(metrics.var95)}`, 'success');
+  report(`Sharpe ${formatNumber(metrics.sharpeRatio, 2)} / Sortino ${formatNumber(metrics.sortinoRatio, 2)} at ${formatPercent(metrics.riskFreeRate)} risk-free (PSR ${formatPercent(metrics.probabilisticSharpeRatio, 1)})`, 'success');
+  if (metrics.benchmark) {
+    report(`Beta: ${formatNumber(metrics.beta, 2)} ± ${formatNumber(metrics.benchmark.betaStandardError, 2)} (R² ${formatNumber(metrics.benchmark.rSquared, 2)}, ${metrics.benchmark.observations} matched days)`, 'success');
+  } else {
+    report('Beta: no overlapping benchmark dates, defaulting to 1.00', 'error');
+  }
+
+  report('Fitting GARCH / GJR-GARCH / EGARCH and tail models...', 'info', true);
+  const volatilityComparison = engine.compareVolatilityModels();
+  const varBreakdowns = {} as RiskAnalysisResult['varBreakdowns'];
+  volatilityComparison.models.forEach(fit => {
+    varBreakdowns[fit.model] = {
+      var95: engine.calculateVaRBreakdown(0.95, 1, fit),
+      var99: engine.calculateVaRBreakdown(0.99, 1, fit)
+    };
+  });
+  const evt = data.length >= 100 ? engine.calculateEVT([0.99, 0.995, 0.999], 0.95) : null;
+  report(`Best volatility model by AIC: ${volatilityComparison.bestByAIC}`, 'success');
+
+  report('Analyzing drawdown history...', 'info', true);
+  const drawdowns = engine.calculateDrawdowns(5, 0.95);
+  report(`Max drawdown ${formatPercent(drawdowns.maxDrawdown)}, Calmar ${formatNumber(drawdowns.calmarRatio, 2)}, Ulcer ${formatPercent(drawdowns.ulcerIndex)}`, 'success');
+
+  report('Computing 21/63/252-day rolling risk metrics...', 'info', true);
+  const rollingMetrics = engine.calculateRollingMetrics([21, 63, 252], benchmarkData);
+  const latestMonthly = rollingMetrics[0].points[rollingMetrics[0].points.length - 1];
+  if (latestMonthly) {
+    report(`21-day vol ${formatPercent(latestMonthly.volatility)} vs ${formatPercent(metrics.volatility)} full history`, 'success');
+  }
+
+  report('Computing Parkinson / Garman-Klass / Rogers-Satchell / Yang-Zhang range volatility...', 'info', true);
+  const rangeVolatility = engine.calculateRangeVolatility();
+  const rollingRangeVolatility = engine.calculateRollingRangeVolatility(21);
+  report(`Yang-Zhang vol ${formatPercent(rangeVolatility.yangZhang)} vs ${formatPercent(rangeVolatility.closeToClose)} close-to-close (${rangeVolatility.observations} OHLC bars)`, 'success');
+
+  report('Building 5D-252D realised volatility cone...', 'info', true);
+  const volatilityCone = engine.calculateVolatilityCone([5, 10, 21, 63, 126, 252]);
+  const monthlyCone = volatilityCone.find(point => point.horizon === 21);
+  if (monthlyCone) {
+    report(`21D realised vol ${formatPercent(monthlyCone.current)} sits at the ${formatPercent(monthlyCone.percentileRank, 0)} percentile (median ${formatPercent(monthlyCone.median)})`, 'success');
+  }
+
+  report('Fitting 2- and 3-state hidden Markov regime models (Baum-Welch)...', 'info', true);
+  const regimeModels = [2, 3].map(states => engine.fitRegimeModel(states));
+  regimeModels.forEach(model => {
+    const current = model.states[model.currentState];
+    report(`${model.states.length}-state HMM: ${current.label} at ${formatPercent(model.currentProbabilities[model.currentState], 1)}, BIC ${formatNumber(model.bic, 1)}${model.converged ? '' : ' (not converged)'}`, 'success');
+  });
+
+  report('Detecting structural breaks (PELT, CUSUM) on full history...', 'info', true);
+  const historyEngine = data === fullHistory ? engine : new AdvancedRiskEngine(fullHistory, riskFreeRate);
+  const changePoints = historyEngine.detectChangePoints();
+  report(`${changePoints.changePoints.length} break(s) in mean/variance${changePoints.lastBreakDate ? `, last on ${changePoints.lastBreakDate.slice(0, 10)}` : ''}`, 'success');
+  report(`CUSUM mean p=${formatNumber(changePoints.cusumMean.pValue, 3)}, CUSUM variance p=${formatNumber(changePoints.cusumVariance.pValue, 3)}`, changePoints.cusumVariance.significant || changePoints.cusumMean.significant ? 'error' : 'success');
+
+  report('Testing persistence and mean reversion (Hurst, variance ratio, ADF/KPSS)...', 'info', true);
+  const persistence = engine.calculatePersistenceDiagnostics();
+  report(`Series is ${persistence.classification.toUpperCase()}: Hurst R/S ${formatNumber(persistence.hurstRS, 2)}, DFA ${formatNumber(persistence.hurstDFA, 2)}, ADF ${formatNumber(persistence.adf.statistic, 2)}, KPSS ${formatNumber(persistence.kpss.statistic, 2)}`, 'success');
+
+  report('Replaying historical stress scenarios...', 'info', true);
+  const stressTests = runHistoricalStressTests(fullHistory, benchmarkData, metrics.beta);
+  const worstScenario = stressTests.reduce((worst, result) => (result.peakToTrough < worst.peakToTrough ? result : worst));
+  report(`Worst scenario: ${worstScenario.scenario.name} ${formatPercent(worstScenario.peakToTrough)} peak-to-trough (${worstScenario.source === 'symbol' ? 'own history' : `beta ${formatNumber(metrics.beta, 2)} proxy`})`, 'success');
+
+  report('Computing 1/5/10/21-day VaR and Expected Shortfall...', 'info', true);
+  const horizonRisk = engine.calculateHorizonRisk([1, 5, 10, 21], 0.99, 10000, { seed });
+  const tenDay = horizonRisk.find(h => h.horizon === 10);
+  if (tenDay) {
+    report(`10-day VaR(99%): ${formatPercent(tenDay.historical.var)} hist / ${formatPercent(tenDay.parametric.var)} param / ${formatPercent(tenDay.monteCarlo.var)} MC`, 'success');
+  }
+
+  report('Backtesting VaR(99%) out-of-sample...', 'info', true);
+  const backtest = engine.backtestVaR(0.99, 250);
+  report(`VaR backtest: ${backtest.exceptions} exceptions vs ${formatNumber(backtest.expectedExceptions, 1)} expected (Kupiec p=${formatNumber(backtest.kupiec.pValue, 3)}, Basel ${backtest.baselZone ? backtest.baselZone.toUpperCase() : 'N/A, under 250 days'})`, backtest.baselZone === 'red' ? 'error' : 'success');
+
+  const termStructure = engine.forecastVolatilityTermStructure(252, volatilityComparison.models[0]);
+  report(`GARCH vol term structure: 1D ${formatPercent(termStructure[0].annualizedVolatility)} / 21D ${formatPercent(termStructure[20].annualizedVolatility)} / 252D ${formatPercent(termStructure[251].annualizedVolatility)}`, 'success');
+
+  report('Measuring liquidity and liquidity-adjusted VaR...', 'info', true);
+  // Filtered HS reuses the volatility fits above; the unadjusted counterparts are in varBreakdowns
+  const varByMethod = (positionShares: number, fit: GARCHResult): VaRByMethod => {
+    const at = (method: VaRMethod) => ({
+      var95: engine.calculateVaR(0.95, 1, method, { positionShares }, fit),
+      var99: engine.calculateVaR(0.99, 1, method, { positionShares }, fit)
+    });
+    return {
+      'parametric': at('parametric'),
+      'historical': at('historical'),
+      'cornish-fisher': at('cornish-fisher'),
+      'filtered-historical': at('filtered-historical')
+    };
+  };
+  const liquidity: LiquidityRisk[] = [];
+  for (const positionShares of LIQUIDITY_POSITION_SIZES) {
+    const analysis = engine.calculateLiquidityRisk({ positionShares });
+    if (!analysis) continue;
+    const liquidityAdjustedVaR = {} as LiquidityRisk['liquidityAdjustedVaR'];
+    volatilityComparison.models.forEach(fit => {
+      liquidityAdjustedVaR[fit.model] = varByMethod(positionShares, fit);
+    });
+    liquidity.push({ analysis, liquidityAdjustedVaR });
+  }
+  if (liquidity.length > 0) {
+    const [first] = liquidity;
+    report(`ADV ${formatNumber(first.analysis.averageDailyVolume, 0)} shares, Amihud ${first.analysis.amihudIlliquidity.toExponential(2)} per $1M`, 'success');
+  } else {
+    report('No volume data: liquidity-adjusted VaR unavailable', 'error');
+  }
+
+  // Generate price projections
+  report('Generating advanced price projections with Prophet and Markov models...', 'info', true);
+  const projections = generateAdvancedPriceProjections(currentPrice, data, termStructure, seed);
+  report(`Generated projections for ${projections.length} timeframes using AI models`, 'success');
+
+  // Log realistic projection ranges for validation
+  projections.forEach(proj => {
+    const bullishChange = ((proj.bullish - currentPrice) / currentPrice * 100).toFixed(2);
+    const bearishChange = ((proj.bearish - currentPrice) / currentPrice * 100).toFixed(2);
+    report(`${proj.timeframe}: +${bullishChange}% / ${bearishChange}%`);
+  });
+
+  // Calculate volume profile and accumulation zones
+  report('Computing 3D volume profile analysis...', 'info', true);
+  const volumeAnalysis = calculateVolumeProfile(data);
+  report(`Detected ${volumeAnalysis.zones.length} accumulation/distribution zones`, 'success');
+  report(`Volume profile calculated for ${volumeAnalysis.profile.length} price levels`, 'success');
+
+  return {
+    trend,
+    metrics,
+    horizonRisk,
+    backtest,
+    volatilityComparison,
+    varBreakdowns,
+    evt,
+    drawdowns,
+    rollingMetrics,
+    rangeVolatility,
+    rollingRangeVolatility,
+    volatilityCone,
+    regimeModels,
+    changePoints,
+    persistence,
+    stressTests,
+    liquidity,
+    estimationStart: data === fullHistory ? null : data[0].date.slice(0, 10),
+    projections,
+    volumeProfile: volumeAnalysis.profile,
+    accumulationZones: volumeAnalysis.zones
+  };
+}